@@ -1,115 +1,411 @@
-import axios from "axios";
+import axios, {
+  AxiosError,
+  AxiosInstance,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from "axios";
 import { CreateChainSwapDto } from "./dto/create-chain-swap.dto";
-import { ChainSwapResponseDto } from "./dto/chain-swap-response.dto";
+import {
+  ChainSwapResponseDto,
+  chainSwapResponseValidator,
+} from "./dto/chain-swap-response.dto";
+import {
+  ChainSwapTransactionsDto,
+  chainSwapTransactionsValidator,
+} from "./dto/chain-swap-transactions.dto";
+import { SwapStatusDto, swapStatusValidator } from "./dto/swap-status.dto";
+import { ChainPairsDto, chainPairsValidator } from "./dto/chain-pairs.dto";
+import {
+  ChainSwapClaimDetailsDto,
+  chainSwapClaimDetailsValidator,
+} from "./dto/chain-swap-claim-details.dto";
+import {
+  ChainSwapQuoteDto,
+  chainSwapQuoteValidator,
+} from "./dto/chain-swap-quote.dto";
+import {
+  ChainTransactionDto,
+  chainTransactionValidator,
+} from "./dto/chain-transaction.dto";
+import {
+  PartialSignatureDto,
+  partialSignatureValidator,
+} from "./dto/partial-signature.dto";
+import {
+  isNumber,
+  isObject,
+  isRecordOf,
+  isString,
+  parseBoltzDto,
+} from "./dto/dto-validation";
+import { BoltzSession } from "./session-recording";
+import { JsonLogger, Logger } from "./logger";
+import { ChainSwapMetrics } from "./metrics";
+
+// Swap and transaction ids in paths would give every request its own series
+const metricEndpoint = (path: string) =>
+  path
+    .replace(/^\/v2\/swap\/chain\/[^/]+\//, "/v2/swap/chain/:id/")
+    .replace(/^\/v2\/swap\/(?!chain$)[^/]+$/, "/v2/swap/:id")
+    .replace(/\/transaction\/[^/]+$/, "/transaction/:id");
 
 export class BoltzClient {
-  private apiUrl: string;
+  private http: AxiosInstance;
+  private requestStartedAt = new WeakMap<InternalAxiosRequestConfig, number>();
+
+  constructor(
+    apiUrl: string,
+    private session: BoltzSession = {},
+    private logger: Logger = new JsonLogger(),
+    private metrics?: ChainSwapMetrics,
+  ) {
+    this.http = axios.create({
+      baseURL: apiUrl,
+      // Replays answer from the recording without touching the network
+      adapter: session.replayer
+        ? (config) => this.replayRequest(config)
+        : undefined,
+    });
 
-  constructor(apiUrl: string) {
-    this.apiUrl = apiUrl;
+    if (metrics) {
+      this.http.interceptors.request.use((config) => {
+        this.requestStartedAt.set(config, Date.now());
+        return config;
+      });
+      this.http.interceptors.response.use(
+        (response) => {
+          this.observeRequest(response.config, response.status);
+          return response;
+        },
+        (error) => {
+          this.observeRequest(error.config, error.response?.status ?? 0);
+          throw error;
+        },
+      );
+    }
+
+    if (session.recorder) {
+      this.http.interceptors.response.use(
+        (response) => {
+          this.recordExchange(response.config, response.status, response.data);
+          return response;
+        },
+        (error) => {
+          this.recordExchange(
+            error.config,
+            error.response?.status ?? 0,
+            error.response?.data ?? error.message,
+          );
+          throw error;
+        },
+      );
+    }
   }
 
   async createChainSwap(
     chainSwap: CreateChainSwapDto,
   ): Promise<ChainSwapResponseDto> {
     try {
-      const response = await axios.post(
-        `${this.apiUrl}/v2/swap/chain`,
-        chainSwap,
+      const response = await this.http.post("/v2/swap/chain", chainSwap);
+      return parseBoltzDto(
+        "chain swap",
+        chainSwapResponseValidator,
+        response.data,
       );
-      return response.data;
     } catch (error) {
-      console.error(
-        "Failed to create chain swap:",
-        error.response?.data || error.message,
-      );
+      this.logger.error("Failed to create chain swap", { error });
       throw error;
     }
   }
 
-  async getChainSwapClaimDetails(id: string) {
+  async getSwapStatus(id: string): Promise<SwapStatusDto> {
     try {
-      const response = await axios.get(
-        `${this.apiUrl}/v2/swap/chain/${id}/claim`,
-      );
-      return response.data;
+      const response = await this.http.get(`/v2/swap/${id}`);
+      return parseBoltzDto("swap status", swapStatusValidator, response.data);
     } catch (error) {
-      console.error(
-        `Failed to get chain swap claim details for ID ${id}:`,
-        error.response?.data || error.message,
+      this.logger.error("Failed to get swap status", { swapId: id, error });
+      throw error;
+    }
+  }
+
+  async getChainSwapClaimDetails(
+    id: string,
+  ): Promise<ChainSwapClaimDetailsDto> {
+    try {
+      const response = await this.http.get(`/v2/swap/chain/${id}/claim`);
+      return parseBoltzDto(
+        "chain swap claim details",
+        chainSwapClaimDetailsValidator,
+        response.data,
       );
+    } catch (error) {
+      this.logger.error("Failed to get chain swap claim details", {
+        swapId: id,
+        error,
+      });
       throw error;
     }
   }
 
+  /**
+   * Gets Boltz's signature for our claim. `signature` signs Boltz's claim of
+   * our lockup and can be left out once Boltz has it
+   */
   async claimChainSwap(
     swapId: string,
     preimage: string,
-    signature: { partialSignature: string; pubNonce: string },
+    signature: { partialSignature: string; pubNonce: string } | undefined,
     toSign: { index: number; transaction: string; pubNonce: string },
-  ): Promise<{ pubNonce: string; partialSignature: string }> {
+  ): Promise<PartialSignatureDto> {
     try {
-      const response = await axios.post(
-        `${this.apiUrl}/v2/swap/chain/${swapId}/claim`,
+      const response = await this.http.post(
+        `/v2/swap/chain/${swapId}/claim`,
         {
           preimage,
           signature,
           toSign,
         },
       );
-      return response.data;
+      return parseBoltzDto(
+        "claim signature",
+        partialSignatureValidator,
+        response.data,
+      );
     } catch (error) {
-      console.error(
-        `Failed to claim chain swap ${swapId}:`,
-        error.response?.data || error.message,
+      this.logger.error("Failed to claim chain swap", { swapId, error });
+      throw error;
+    }
+  }
+
+  async getChainSwapTransactions(
+    id: string,
+  ): Promise<ChainSwapTransactionsDto> {
+    try {
+      const response = await this.http.get(
+        `/v2/swap/chain/${id}/transactions`,
+      );
+      return parseBoltzDto(
+        "chain swap transactions",
+        chainSwapTransactionsValidator,
+        response.data,
+      );
+    } catch (error) {
+      this.logger.error("Failed to get chain swap transactions", {
+        swapId: id,
+        error,
+      });
+      throw error;
+    }
+  }
+
+  async getChainSwapQuote(swapId: string): Promise<ChainSwapQuoteDto> {
+    try {
+      const response = await this.http.get(
+        `/v2/swap/chain/${swapId}/quote`,
+      );
+      return parseBoltzDto(
+        "chain swap quote",
+        chainSwapQuoteValidator,
+        response.data,
       );
+    } catch (error) {
+      this.logger.error("Failed to get quote for chain swap", {
+        swapId,
+        error,
+      });
       throw error;
     }
   }
 
-  async claimBTC(transactionHex: string): Promise<string> {
+  async acceptChainSwapQuote(swapId: string, amount: number): Promise<void> {
     try {
-      const response = await axios.post(
-        `${this.apiUrl}/v2/chain/BTC/transaction`,
+      await this.http.post(`/v2/swap/chain/${swapId}/quote`, {
+        amount,
+      });
+    } catch (error) {
+      this.logger.error("Failed to accept quote for chain swap", {
+        swapId,
+        error,
+      });
+      throw error;
+    }
+  }
+
+  async refundChainSwap(
+    swapId: string,
+    toSign: { index: number; transaction: string; pubNonce: string },
+  ): Promise<PartialSignatureDto> {
+    try {
+      const response = await this.http.post(
+        `/v2/swap/chain/${swapId}/refund`,
+        toSign,
+      );
+      return parseBoltzDto(
+        "refund signature",
+        partialSignatureValidator,
+        response.data,
+      );
+    } catch (error) {
+      this.logger.error("Failed to refund chain swap", { swapId, error });
+      throw error;
+    }
+  }
+
+  async broadcastTransaction(
+    currency: "BTC" | "L-BTC",
+    transactionHex: string,
+  ): Promise<string> {
+    try {
+      const response = await this.http.post(
+        `/v2/chain/${currency}/transaction`,
         {
           hex: transactionHex,
         },
       );
-      return response.data.id;
+      return parseBoltzDto(
+        "broadcast response",
+        isObject<{ id: string }>({ id: isString }),
+        response.data,
+      ).id;
     } catch (error) {
-      console.error(
-        "Failed to broadcast BTC transaction:",
-        error.response?.data || error.message,
+      this.logger.error("Failed to broadcast transaction", { currency, error });
+      throw error;
+    }
+  }
+
+  async getTransaction(
+    currency: "BTC" | "L-BTC",
+    transactionId: string,
+  ): Promise<ChainTransactionDto> {
+    try {
+      const response = await this.http.get(
+        `/v2/chain/${currency}/transaction/${transactionId}`,
       );
+      return parseBoltzDto(
+        "transaction",
+        chainTransactionValidator,
+        response.data,
+      );
+    } catch (error) {
+      this.logger.error("Failed to get transaction", {
+        currency,
+        transactionId,
+        error,
+      });
       throw error;
     }
   }
 
-  async getChainSwapFee(): Promise<any> {
+  async getChainSwapFee(): Promise<ChainPairsDto> {
     try {
-      const response = await axios.get(`${this.apiUrl}/v2/swap/chain`);
-      return response.data;
+      const response = await this.http.get("/v2/swap/chain");
+      return parseBoltzDto("chain pairs", chainPairsValidator, response.data);
     } catch (error) {
-      console.error(
-        "Failed to get chain swap fees:",
-        error.response?.data || error.message,
+      this.logger.error("Failed to get chain swap fees", { error });
+      throw error;
+    }
+  }
+
+  async getChainHeights(): Promise<Record<string, number>> {
+    try {
+      const response = await this.http.get("/v2/chain/heights");
+      return parseBoltzDto(
+        "chain heights",
+        isRecordOf(isNumber),
+        response.data,
       );
+    } catch (error) {
+      this.logger.error("Failed to get chain heights", { error });
       throw error;
     }
   }
 
   async getNetworkFee(currency: "BTC" | "L-BTC"): Promise<{ fee: number }> {
     try {
-      const response = await axios.get(
-        `${this.apiUrl}/v2/chain/${currency}/fee`,
+      const response = await this.http.get(`/v2/chain/${currency}/fee`);
+      return parseBoltzDto(
+        "network fee",
+        isObject<{ fee: number }>({ fee: isNumber }),
+        response.data,
       );
-      return response.data;
     } catch (error) {
-      console.error(
-        `Failed to get network fees for ${currency}:`,
-        error.response?.data || error.message,
-      );
+      this.logger.error("Failed to get network fees", { currency, error });
       throw error;
     }
   }
+
+  private observeRequest(config: InternalAxiosRequestConfig, status: number) {
+    // Requests that failed before they were sent have no config
+    const startedAt = config && this.requestStartedAt.get(config);
+    if (startedAt === undefined) {
+      return;
+    }
+
+    const labels = {
+      method: config.method.toUpperCase(),
+      endpoint: metricEndpoint(config.url),
+      status: String(status),
+    };
+    this.metrics.boltzApiRequestSeconds.observe(
+      labels,
+      (Date.now() - startedAt) / 1000,
+    );
+    if (status === 0 || status >= 400) {
+      this.metrics.boltzApiErrors.inc(labels);
+    }
+  }
+
+  private recordExchange(
+    config: InternalAxiosRequestConfig,
+    status: number,
+    response: unknown,
+  ) {
+    this.session.recorder.record({
+      type: "http",
+      method: config.method.toUpperCase(),
+      path: config.url,
+      request: this.parseRequestBody(config),
+      status,
+      response,
+    });
+  }
+
+  private async replayRequest(
+    config: InternalAxiosRequestConfig,
+  ): Promise<AxiosResponse> {
+    const { status, response } = this.session.replayer.replayHttp(
+      config.method.toUpperCase(),
+      config.url,
+      this.parseRequestBody(config),
+    );
+
+    if (status === 0) {
+      throw new AxiosError(String(response), AxiosError.ERR_NETWORK, config);
+    }
+
+    const axiosResponse: AxiosResponse = {
+      data: response,
+      status,
+      statusText: "",
+      headers: {},
+      config,
+    };
+    if (status >= 400) {
+      throw new AxiosError(
+        `Request failed with status code ${status}`,
+        AxiosError.ERR_BAD_RESPONSE,
+        config,
+        undefined,
+        axiosResponse,
+      );
+    }
+    return axiosResponse;
+  }
+
+  // Bodies are already serialized by the time interceptors and adapters see them
+  private parseRequestBody(config: InternalAxiosRequestConfig) {
+    return typeof config.data === "string"
+      ? JSON.parse(config.data)
+      : config.data;
+  }
 }
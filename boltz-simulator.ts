@@ -0,0 +1,1200 @@
+import { createHash, randomBytes } from "crypto";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { WebSocket, WebSocketServer } from "ws";
+import * as bitcoin from "bitcoinjs-lib";
+import {
+  address as LiquidAddress,
+  AssetHash,
+  confidential,
+  networks as LiquidNetworkTypes,
+  Transaction as LiquidTransaction,
+  TxOutput as LiquidTxOutput,
+} from "liquidjs-lib";
+import zkpInit, { Secp256k1ZKP } from "@vulpemventures/secp256k1-zkp";
+import { ECPairFactory, ECPairInterface } from "ecpair";
+import * as ecc from "tiny-secp256k1";
+import {
+  Musig,
+  Scripts,
+  SwapTreeSerializer,
+  swapTree as createSwapTree,
+  TaprootUtils,
+} from "boltz-core";
+import {
+  Networks as LiquidNetworks,
+  TaprootUtils as LiquidTaprootUtils,
+} from "boltz-core/dist/lib/liquid";
+import { Taptree } from "bitcoinjs-lib/src/types";
+import { ChainSwapCurrency } from "./chain-swap-direction";
+import { BoltzChainSwapStatus } from "./chain-swap-state-machine";
+import { isWithinLimits, quoteSendAmount } from "./chain-swap-quote";
+import { ChainPairDto, ChainPairsDto } from "./dto/chain-pairs.dto";
+import { CreateChainSwapDto } from "./dto/create-chain-swap.dto";
+import { ChainSwapResponseDto } from "./dto/chain-swap-response.dto";
+import { SwapStatusDto } from "./dto/swap-status.dto";
+
+const ECPair = ECPairFactory(ecc);
+
+export interface SimulatorScenarioStep {
+  status: BoltzChainSwapStatus;
+  failureReason?: string;
+  // Makes the simulated user lockup deviate from the amount Boltz expects
+  amountOffset?: number;
+  // Before sending the status, Boltz either closes every connection and refuses the next
+  // `simulatorRefusedReconnects` attempts, or leaves the open ones hanging: they get neither
+  // updates nor answers to their pings anymore
+  connection?: "dropped" | "unresponsive";
+}
+
+export const simulatorRefusedReconnects = 2;
+
+/**
+ * Script of the statuses a swap goes through once its client subscribed to it
+ */
+export interface SimulatorScenario {
+  steps: SimulatorScenarioStep[];
+  // Sent once a claim of Boltz's lockup was broadcast
+  afterClaim?: BoltzChainSwapStatus[];
+  // Boltz doesn't co-sign claims of its lockup, leaving the script path
+  refuseClaimSignature?: boolean;
+  // Boltz offers a new quote for a lockup with the wrong amount, and sends these once it was accepted
+  afterQuoteAccepted?: SimulatorScenarioStep[];
+  // Network fee rates are multiplied by this once the first claim was broadcast, which then
+  // never confirms: only a claim replacing it does
+  claimFeeRateRise?: number;
+}
+
+export type SimulatorScenarioName =
+  | "happyPath"
+  | "lockupFailed"
+  | "expired"
+  | "claimRefused"
+  | "quoteAccepted"
+  | "connectionDropped"
+  | "pingsUnanswered"
+  | "claimReplaced";
+
+const happyPathSteps: SimulatorScenarioStep[] = [
+  { status: "swap.created" },
+  { status: "transaction.mempool" },
+  { status: "transaction.confirmed" },
+  { status: "transaction.server.mempool" },
+  { status: "transaction.server.confirmed" },
+];
+
+export const simulatorScenarios: Record<
+  SimulatorScenarioName,
+  SimulatorScenario
+> = {
+  happyPath: {
+    steps: happyPathSteps,
+    afterClaim: ["transaction.claimed"],
+  },
+  lockupFailed: {
+    steps: [
+      { status: "swap.created" },
+      { status: "transaction.mempool", amountOffset: -1_000 },
+      {
+        status: "transaction.lockupFailed",
+        failureReason: "locked 1000 sats less than expected",
+      },
+    ],
+  },
+  expired: {
+    steps: [{ status: "swap.created" }, { status: "swap.expired" }],
+  },
+  claimRefused: {
+    steps: happyPathSteps,
+    afterClaim: ["transaction.claimed"],
+    refuseClaimSignature: true,
+  },
+  quoteAccepted: {
+    steps: [
+      { status: "swap.created" },
+      { status: "transaction.mempool", amountOffset: -10 },
+      {
+        status: "transaction.lockupFailed",
+        failureReason: "locked 10 sats less than expected",
+      },
+    ],
+    afterQuoteAccepted: [
+      { status: "transaction.server.mempool" },
+      { status: "transaction.server.confirmed" },
+    ],
+    afterClaim: ["transaction.claimed"],
+  },
+  // The statuses sent while the client is away only reach it by subscribing again
+  connectionDropped: {
+    steps: happyPathSteps.map((step) =>
+      step.status === "transaction.confirmed"
+        ? { ...step, connection: "dropped" }
+        : step,
+    ),
+    afterClaim: ["transaction.claimed"],
+  },
+  pingsUnanswered: {
+    steps: happyPathSteps.map((step) =>
+      step.status === "transaction.server.mempool"
+        ? { ...step, connection: "unresponsive" }
+        : step,
+    ),
+    afterClaim: ["transaction.claimed"],
+  },
+  claimReplaced: {
+    steps: happyPathSteps,
+    afterClaim: ["transaction.claimed"],
+    claimFeeRateRise: 5,
+  },
+};
+
+/**
+ * Ways the simulator can tamper with the response to a swap creation, each of which
+ * the service has to refuse
+ */
+export type SimulatorSwapCorruption =
+  | "swappedTrees"
+  | "wrongLockupAddress"
+  | "wrongBlindingKey"
+  | "amountOutsideTolerance"
+  | "timeoutMismatch";
+
+export interface BoltzSimulatorOptions {
+  scenario?: SimulatorScenario;
+  pairs?: ChainPairsDto;
+  heights?: Record<ChainSwapCurrency, number>;
+  feeRates?: Record<ChainSwapCurrency, number>;
+  // Pause between two scripted statuses
+  stepDelayMs?: number;
+  corruptSwapResponse?: SimulatorSwapCorruption;
+}
+
+const defaultPair: ChainPairDto = {
+  hash: "5f8b2c0d3e4a1b6c7d8e9f0a1b2c3d4e5f6a7b8c9d0e1f2a3b4c5d6e7f8a9b0c",
+  rate: 1,
+  limits: {
+    maximal: 4_294_967,
+    minimal: 25_000,
+    maximalZeroConf: 0,
+  },
+  fees: {
+    percentage: 0.1,
+    minerFees: {
+      server: 459,
+      user: {
+        claim: 462,
+        lockup: 276,
+      },
+    },
+  },
+};
+
+export const simulatorFeeRates: Record<ChainSwapCurrency, number> = {
+  BTC: 2,
+  "L-BTC": 0.1,
+};
+
+const defaultOptions: Required<
+  Omit<BoltzSimulatorOptions, "corruptSwapResponse">
+> = {
+  scenario: simulatorScenarios.happyPath,
+  pairs: {
+    BTC: { "L-BTC": defaultPair },
+    "L-BTC": { BTC: defaultPair },
+  },
+  heights: {
+    BTC: 101,
+    "L-BTC": 1_001,
+  },
+  feeRates: simulatorFeeRates,
+  stepDelayMs: 50,
+};
+
+// Blocks until the refund leaf unlocks, well within the service's limits
+const timeoutBlockDelta: Record<ChainSwapCurrency, number> = {
+  BTC: 144,
+  "L-BTC": 1_440,
+};
+
+type AnyTransaction = bitcoin.Transaction | LiquidTransaction;
+type AnyTxOutput = bitcoin.TxOutput | LiquidTxOutput;
+
+interface SimulatedLockup {
+  currency: ChainSwapCurrency;
+  amount: number;
+  // Boltz's key in the swap tree and the user's key it is aggregated with
+  keys: ECPairInterface;
+  userPublicKey: Buffer;
+  swapTree: ReturnType<typeof createSwapTree>;
+  timeoutBlockHeight: number;
+  outputScript: Buffer;
+  lockupAddress: string;
+  blindingKey?: Buffer;
+  transaction?: AnyTransaction;
+  // What the transaction actually pays to the lockup address
+  lockedAmount?: number;
+}
+
+interface SimulatedSwap {
+  id: string;
+  preimageHash: Buffer;
+  status: SwapStatusDto;
+  // The user locks on the "from" chain and Boltz claims it,
+  // Boltz locks on the "to" chain and the user claims it
+  userLock: SimulatedLockup;
+  serverLock: SimulatedLockup;
+  // Boltz's claim of the user lockup, waiting for the user's partial signature
+  boltzClaim?: { musig: Musig; transactionHash: Buffer };
+  // Boltz got the user's signature and claimed the user lockup
+  userLockClaimed: boolean;
+  scriptStarted: boolean;
+  claimed: boolean;
+}
+
+interface SimulatedTransaction {
+  currency: ChainSwapCurrency;
+  transaction: AnyTransaction;
+  confirmations: number;
+}
+
+class SimulatorHttpError extends Error {
+  constructor(
+    readonly statusCode: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "SimulatorHttpError";
+  }
+}
+
+type RouteHandler = (params: string[], body: any) => unknown;
+
+/**
+ * Local stand-in for the Boltz API and WebSocket. Swaps are created with real keys and
+ * swap trees, lockups are fabricated transactions paying to the real lockup addresses, and
+ * partial signatures come from real MuSig2 sessions, so the whole claim and refund flow of
+ * ChainToChainSwapService runs against it without any network
+ */
+export class BoltzSimulator {
+  private server?: Server;
+  private webSocketServer?: WebSocketServer;
+  private zkp: Secp256k1ZKP;
+  private options: typeof defaultOptions & BoltzSimulatorOptions;
+  private swaps = new Map<string, SimulatedSwap>();
+  private transactions = new Map<string, SimulatedTransaction>();
+  private subscriptions = new Map<WebSocket, Set<string>>();
+  private unresponsiveSockets = new Set<WebSocket>();
+  private refusedReconnects = 0;
+  private timers = new Set<NodeJS.Timeout>();
+
+  private readonly bitcoinNetwork = bitcoin.networks.regtest;
+  private readonly liquidNetwork: LiquidNetworkTypes.Network =
+    LiquidNetworks.liquidRegtest;
+
+  private routes: [string, RegExp, RouteHandler][] = [
+    ["GET", /^\/v2\/swap\/chain$/, () => this.options.pairs],
+    ["POST", /^\/v2\/swap\/chain$/, (_, body) => this.createSwap(body)],
+    [
+      "GET",
+      /^\/v2\/swap\/chain\/([^/]+)\/transactions$/,
+      ([id]) => this.getSwapTransactions(this.getSwap(id)),
+    ],
+    [
+      "GET",
+      /^\/v2\/swap\/chain\/([^/]+)\/claim$/,
+      ([id]) => this.getBoltzClaimDetails(this.getSwap(id)),
+    ],
+    [
+      "POST",
+      /^\/v2\/swap\/chain\/([^/]+)\/claim$/,
+      ([id], body) => this.signUserClaim(this.getSwap(id), body),
+    ],
+    [
+      "POST",
+      /^\/v2\/swap\/chain\/([^/]+)\/refund$/,
+      ([id], body) => this.signUserRefund(this.getSwap(id), body),
+    ],
+    [
+      "GET",
+      /^\/v2\/swap\/chain\/([^/]+)\/quote$/,
+      ([id]) => ({ amount: this.getQuoteAmount(this.getSwap(id)) }),
+    ],
+    [
+      "POST",
+      /^\/v2\/swap\/chain\/([^/]+)\/quote$/,
+      ([id], body) => this.acceptQuote(this.getSwap(id), body),
+    ],
+    ["GET", /^\/v2\/swap\/([^/]+)$/, ([id]) => this.getSwap(id).status],
+    ["GET", /^\/v2\/chain\/heights$/, () => this.options.heights],
+    [
+      "GET",
+      /^\/v2\/chain\/([^/]+)\/fee$/,
+      ([currency]) => ({
+        fee: this.options.feeRates[this.parseCurrency(currency)],
+      }),
+    ],
+    [
+      "POST",
+      /^\/v2\/chain\/([^/]+)\/transaction$/,
+      ([currency], body) =>
+        this.broadcastTransaction(this.parseCurrency(currency), body?.hex),
+    ],
+    [
+      "GET",
+      /^\/v2\/chain\/([^/]+)\/transaction\/([^/]+)$/,
+      ([currency, id]) =>
+        this.getTransaction(this.parseCurrency(currency), id),
+    ],
+  ];
+
+  constructor(options: BoltzSimulatorOptions = {}) {
+    this.options = { ...defaultOptions, ...options };
+  }
+
+  /**
+   * Starts listening on localhost, on a random port unless one is given
+   */
+  async start(port = 0): Promise<{ apiUrl: string; webSocketUrl: string }> {
+    this.zkp = await zkpInit();
+    bitcoin.initEccLib(ecc);
+
+    this.server = createServer((request, response) =>
+      this.handleRequest(request, response),
+    );
+    this.webSocketServer = new WebSocketServer({
+      server: this.server,
+      path: "/v2/ws",
+      // Pings are answered in handleConnection, unless the scenario made the socket unresponsive
+      autoPong: false,
+      verifyClient: () => {
+        if (this.refusedReconnects === 0) {
+          return true;
+        }
+        this.refusedReconnects--;
+        return false;
+      },
+    });
+    this.webSocketServer.on("connection", (ws) =>
+      this.handleConnection(ws),
+    );
+
+    await new Promise<void>((resolve) =>
+      this.server.listen(port, "127.0.0.1", resolve),
+    );
+    const { port: boundPort } = this.server.address() as AddressInfo;
+    console.log(`Boltz simulator listening on port ${boundPort}`);
+
+    return {
+      apiUrl: `http://127.0.0.1:${boundPort}`,
+      webSocketUrl: `ws://127.0.0.1:${boundPort}/v2/ws`,
+    };
+  }
+
+  async stop() {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+
+    this.webSocketServer?.clients.forEach((ws) => ws.terminate());
+    await new Promise<void>((resolve) =>
+      this.webSocketServer ? this.webSocketServer.close(() => resolve()) : resolve(),
+    );
+    await new Promise<void>((resolve) =>
+      this.server ? this.server.close(() => resolve()) : resolve(),
+    );
+    this.subscriptions.clear();
+    this.unresponsiveSockets.clear();
+  }
+
+  private async handleRequest(
+    request: IncomingMessage,
+    response: ServerResponse,
+  ) {
+    const path = decodeURIComponent(
+      new URL(request.url, "http://127.0.0.1").pathname,
+    );
+
+    try {
+      const body = await this.readBody(request);
+
+      for (const [method, pattern, handler] of this.routes) {
+        const match = request.method === method && pattern.exec(path);
+        if (match) {
+          return this.respond(response, 200, handler(match.slice(1), body));
+        }
+      }
+
+      throw new SimulatorHttpError(
+        404,
+        `${request.method} ${path} is not simulated`,
+      );
+    } catch (error) {
+      const statusCode =
+        error instanceof SimulatorHttpError ? error.statusCode : 500;
+      console.warn(
+        `Boltz simulator: ${request.method} ${path} failed with ${statusCode}:`,
+        error.message,
+      );
+      this.respond(response, statusCode, { error: error.message });
+    }
+  }
+
+  private readBody(request: IncomingMessage): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      request.on("data", (chunk: Buffer) => chunks.push(chunk));
+      request.on("error", reject);
+      request.on("end", () => {
+        try {
+          const body = Buffer.concat(chunks).toString();
+          resolve(body ? JSON.parse(body) : undefined);
+        } catch (error) {
+          reject(new SimulatorHttpError(400, "invalid JSON body"));
+        }
+      });
+    });
+  }
+
+  private respond(response: ServerResponse, statusCode: number, body: unknown) {
+    response.writeHead(statusCode, { "Content-Type": "application/json" });
+    response.end(JSON.stringify(body ?? {}));
+  }
+
+  private handleConnection(ws: WebSocket) {
+    this.subscriptions.set(ws, new Set());
+
+    ws.on("ping", (data: Buffer) => {
+      if (!this.unresponsiveSockets.has(ws)) {
+        ws.pong(data);
+      }
+    });
+
+    ws.on("message", (data: Buffer) => {
+      let message: { op?: string; channel?: string; args?: string[] };
+      try {
+        message = JSON.parse(data.toString());
+      } catch (error) {
+        ws.send(JSON.stringify({ event: "error", args: ["invalid JSON"] }));
+        return;
+      }
+
+      if (message.channel !== "swap.update" || !Array.isArray(message.args)) {
+        ws.send(
+          JSON.stringify({ event: "error", args: ["unknown channel"] }),
+        );
+        return;
+      }
+
+      if (message.op === "unsubscribe") {
+        message.args.forEach((id) => this.subscriptions.get(ws)?.delete(id));
+        ws.send(
+          JSON.stringify({
+            event: "unsubscribe",
+            channel: message.channel,
+            args: message.args,
+          }),
+        );
+        return;
+      }
+
+      if (message.op !== "subscribe") {
+        ws.send(JSON.stringify({ event: "error", args: ["unknown op"] }));
+        return;
+      }
+
+      message.args.forEach((id) => this.subscriptions.get(ws)?.add(id));
+      ws.send(
+        JSON.stringify({
+          event: "subscribe",
+          channel: message.channel,
+          args: message.args,
+        }),
+      );
+
+      // Like Boltz, the current status of every swap is sent right after subscribing
+      const swaps = message.args
+        .map((id) => this.swaps.get(id))
+        .filter((swap) => swap !== undefined);
+      if (swaps.length > 0) {
+        ws.send(
+          JSON.stringify({
+            event: "update",
+            channel: "swap.update",
+            args: swaps.map((swap) => ({ id: swap.id, ...swap.status })),
+          }),
+        );
+      }
+      swaps.forEach((swap) => this.startScript(swap));
+    });
+
+    ws.on("close", () => {
+      this.subscriptions.delete(ws);
+      this.unresponsiveSockets.delete(ws);
+    });
+  }
+
+  private createSwap(request: CreateChainSwapDto): ChainSwapResponseDto {
+    const from = this.parseCurrency(request?.from);
+    const to = this.parseCurrency(request?.to);
+    const pair = this.options.pairs[from]?.[to];
+    if (!pair) {
+      throw new SimulatorHttpError(400, `no chain pair ${from}/${to}`);
+    }
+    if (request.pairHash !== undefined && request.pairHash !== pair.hash) {
+      throw new SimulatorHttpError(400, "invalid pair hash");
+    }
+
+    const quote = quoteSendAmount(pair, request.userLockAmount);
+    if (!isWithinLimits(quote)) {
+      throw new SimulatorHttpError(
+        400,
+        `${request.userLockAmount} is outside of the limits`,
+      );
+    }
+
+    const preimageHash = Buffer.from(request.preimageHash, "hex");
+    const swap: SimulatedSwap = {
+      id: randomBytes(6).toString("hex"),
+      preimageHash,
+      status: { status: "swap.created" },
+      // The user claims with the preimage, Boltz refunds after the timeout - and the other way round
+      userLock: this.createLockup(
+        from,
+        request.userLockAmount,
+        preimageHash,
+        Buffer.from(request.refundPublicKey, "hex"),
+        true,
+      ),
+      serverLock: this.createLockup(
+        to,
+        quote.serverLockAmount,
+        preimageHash,
+        Buffer.from(request.claimPublicKey, "hex"),
+        false,
+      ),
+      scriptStarted: false,
+      userLockClaimed: false,
+      claimed: false,
+    };
+    this.swaps.set(swap.id, swap);
+    console.log(`Boltz simulator: created chain swap ${swap.id} ${from} -> ${to}`);
+
+    return this.corruptSwapResponse(swap, {
+      id: swap.id,
+      lockupDetails: this.toSwapData(swap.userLock),
+      claimDetails: this.toSwapData(swap.serverLock),
+    });
+  }
+
+  private corruptSwapResponse(
+    swap: SimulatedSwap,
+    response: ChainSwapResponseDto,
+  ): ChainSwapResponseDto {
+    const { lockupDetails, claimDetails } = response;
+
+    switch (this.options.corruptSwapResponse) {
+      case "swappedTrees":
+        [lockupDetails.swapTree, claimDetails.swapTree] = [
+          claimDetails.swapTree,
+          lockupDetails.swapTree,
+        ];
+        break;
+
+      case "wrongLockupAddress":
+        // A valid address, but of a swap tree with another key of Boltz
+        lockupDetails.lockupAddress = this.createLockup(
+          swap.userLock.currency,
+          swap.userLock.amount,
+          swap.preimageHash,
+          swap.userLock.userPublicKey,
+          true,
+        ).lockupAddress;
+        break;
+
+      case "wrongBlindingKey": {
+        const liquidDetails =
+          swap.userLock.currency === "L-BTC" ? lockupDetails : claimDetails;
+        liquidDetails.blindingKey = ECPair.makeRandom().privateKey.toString("hex");
+        break;
+      }
+
+      case "amountOutsideTolerance":
+        claimDetails.amount = Math.floor(claimDetails.amount * 0.95);
+        break;
+
+      case "timeoutMismatch":
+        lockupDetails.timeoutBlockHeight += 1;
+        break;
+    }
+
+    return response;
+  }
+
+  private createLockup(
+    currency: ChainSwapCurrency,
+    amount: number,
+    preimageHash: Buffer,
+    userPublicKey: Buffer,
+    boltzClaims: boolean,
+  ): SimulatedLockup {
+    const keys = ECPair.makeRandom();
+    const timeoutBlockHeight =
+      this.options.heights[currency] + timeoutBlockDelta[currency];
+    const [claimPublicKey, refundPublicKey] = boltzClaims
+      ? [keys.publicKey, userPublicKey]
+      : [userPublicKey, keys.publicKey];
+    const swapTree = createSwapTree(
+      currency === "L-BTC",
+      preimageHash,
+      claimPublicKey,
+      refundPublicKey,
+      timeoutBlockHeight,
+    );
+
+    const outputScript = Scripts.p2trOutput(
+      this.tweakMusig(currency, this.createMusig(keys, userPublicKey), swapTree.tree),
+    );
+
+    let lockupAddress: string;
+    let blindingKey: Buffer | undefined;
+    if (currency === "L-BTC") {
+      const blindingKeys = ECPair.makeRandom();
+      blindingKey = blindingKeys.privateKey;
+      lockupAddress = LiquidAddress.toConfidential(
+        LiquidAddress.fromOutputScript(outputScript, this.liquidNetwork),
+        blindingKeys.publicKey,
+      );
+    } else {
+      lockupAddress = bitcoin.address.fromOutputScript(
+        outputScript,
+        this.bitcoinNetwork,
+      );
+    }
+
+    return {
+      currency,
+      amount,
+      keys,
+      userPublicKey,
+      swapTree,
+      timeoutBlockHeight,
+      outputScript,
+      lockupAddress,
+      blindingKey,
+    };
+  }
+
+  private toSwapData(lockup: SimulatedLockup) {
+    return {
+      amount: lockup.amount,
+      swapTree: SwapTreeSerializer.serializeSwapTree(lockup.swapTree),
+      timeoutBlockHeight: lockup.timeoutBlockHeight,
+      serverPublicKey: lockup.keys.publicKey.toString("hex"),
+      lockupAddress: lockup.lockupAddress,
+      bip21: `${lockup.currency === "BTC" ? "bitcoin" : "liquidnetwork"}:${lockup.lockupAddress}?amount=${lockup.amount / 100_000_000}`,
+      blindingKey: lockup.blindingKey?.toString("hex"),
+    };
+  }
+
+  private startScript(swap: SimulatedSwap) {
+    if (swap.scriptStarted) {
+      return;
+    }
+    swap.scriptStarted = true;
+
+    this.schedule(
+      this.options.scenario.steps.map((step) => () => this.runStep(swap, step)),
+    );
+  }
+
+  /**
+   * Runs the actions one after another, `stepDelayMs` apart
+   */
+  private schedule(actions: (() => void)[]) {
+    const [next, ...rest] = actions;
+    if (!next) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      try {
+        next();
+      } catch (error) {
+        console.error("Boltz simulator: scripted step failed:", error);
+      }
+      this.schedule(rest);
+    }, this.options.stepDelayMs);
+    this.timers.add(timer);
+  }
+
+  private runStep(swap: SimulatedSwap, step: SimulatorScenarioStep) {
+    let transaction: AnyTransaction | undefined;
+
+    if (step.connection === "dropped") {
+      console.log("Boltz simulator: dropping all connections");
+      this.refusedReconnects = simulatorRefusedReconnects;
+      this.webSocketServer.clients.forEach((ws) => ws.terminate());
+    } else if (step.connection === "unresponsive") {
+      console.log("Boltz simulator: no longer answering open connections");
+      this.webSocketServer.clients.forEach((ws) =>
+        this.unresponsiveSockets.add(ws),
+      );
+    }
+
+    switch (step.status) {
+      case "transaction.mempool":
+        transaction = this.fundLockup(
+          swap.userLock,
+          swap.userLock.amount + (step.amountOffset ?? 0),
+        );
+        break;
+
+      case "transaction.confirmed":
+      case "transaction.lockupFailed":
+        transaction = swap.userLock.transaction;
+        break;
+
+      case "transaction.server.mempool":
+        transaction = this.fundLockup(swap.serverLock, swap.serverLock.amount);
+        break;
+
+      case "transaction.server.confirmed":
+        transaction =
+          swap.serverLock.transaction ??
+          this.fundLockup(swap.serverLock, swap.serverLock.amount);
+        break;
+    }
+
+    if (
+      step.status === "transaction.confirmed" ||
+      step.status === "transaction.server.confirmed"
+    ) {
+      this.transactions.get(transaction.getId()).confirmations = 1;
+    }
+
+    this.setStatus(swap, {
+      status: step.status,
+      failureReason: step.failureReason,
+      transaction: transaction && {
+        id: transaction.getId(),
+        hex: transaction.toHex(),
+      },
+    });
+  }
+
+  /**
+   * Fabricates a transaction paying to the lockup address out of thin air
+   */
+  private fundLockup(lockup: SimulatedLockup, amount: number): AnyTransaction {
+    let transaction: AnyTransaction;
+
+    if (lockup.currency === "L-BTC") {
+      const liquidTransaction = new LiquidTransaction();
+      liquidTransaction.version = 2;
+      liquidTransaction.addInput(randomBytes(32), 0);
+      // An unblinded output; confidential outputs would need a real wallet
+      liquidTransaction.addOutput(
+        lockup.outputScript,
+        confidential.satoshiToConfidentialValue(amount),
+        AssetHash.fromHex(this.liquidNetwork.assetHash).bytes,
+        Buffer.of(0),
+      );
+      transaction = liquidTransaction;
+    } else {
+      const bitcoinTransaction = new bitcoin.Transaction();
+      bitcoinTransaction.version = 2;
+      bitcoinTransaction.addInput(randomBytes(32), 0);
+      bitcoinTransaction.addOutput(lockup.outputScript, amount);
+      transaction = bitcoinTransaction;
+    }
+
+    lockup.transaction = transaction;
+    lockup.lockedAmount = amount;
+    this.transactions.set(transaction.getId(), {
+      currency: lockup.currency,
+      transaction,
+      confirmations: 0,
+    });
+    return transaction;
+  }
+
+  private setStatus(swap: SimulatedSwap, status: SwapStatusDto) {
+    swap.status = JSON.parse(JSON.stringify(status));
+    console.log(`Boltz simulator: swap ${swap.id} is now ${status.status}`);
+
+    const message = JSON.stringify({
+      event: "update",
+      channel: "swap.update",
+      args: [{ id: swap.id, ...swap.status }],
+    });
+    this.subscriptions.forEach((swapIds, ws) => {
+      if (
+        swapIds.has(swap.id) &&
+        ws.readyState === WebSocket.OPEN &&
+        !this.unresponsiveSockets.has(ws)
+      ) {
+        ws.send(message);
+      }
+    });
+  }
+
+  /**
+   * Amount Boltz locks for what the user actually locked, if the scenario offers new quotes
+   */
+  private getQuoteAmount(swap: SimulatedSwap): number {
+    const { lockedAmount } = swap.userLock;
+    if (
+      !this.options.scenario.afterQuoteAccepted ||
+      lockedAmount === undefined ||
+      lockedAmount === swap.userLock.amount
+    ) {
+      throw new SimulatorHttpError(404, "no quote available");
+    }
+
+    const pair =
+      this.options.pairs[swap.userLock.currency][swap.serverLock.currency];
+    return quoteSendAmount(pair, lockedAmount).serverLockAmount;
+  }
+
+  private acceptQuote(swap: SimulatedSwap, body: { amount?: number }) {
+    const amount = this.getQuoteAmount(swap);
+    if (body?.amount !== amount) {
+      throw new SimulatorHttpError(400, "invalid quote amount");
+    }
+
+    swap.userLock.amount = swap.userLock.lockedAmount;
+    swap.serverLock.amount = amount;
+    this.schedule(
+      this.options.scenario.afterQuoteAccepted.map(
+        (step) => () => this.runStep(swap, step),
+      ),
+    );
+    return {};
+  }
+
+  private getSwapTransactions(swap: SimulatedSwap) {
+    const toLockTransaction = (lockup: SimulatedLockup) =>
+      lockup.transaction && {
+        transaction: {
+          id: lockup.transaction.getId(),
+          hex: lockup.transaction.toHex(),
+        },
+        timeout: { blockHeight: lockup.timeoutBlockHeight },
+      };
+
+    return {
+      userLock: toLockTransaction(swap.userLock),
+      serverLock: toLockTransaction(swap.serverLock),
+    };
+  }
+
+  /**
+   * Boltz's claim of the user lockup. The transaction itself isn't simulated, only the
+   * MuSig2 session the user is asked to sign its hash in
+   */
+  private getBoltzClaimDetails(swap: SimulatedSwap) {
+    if (!swap.userLock.transaction) {
+      throw new SimulatorHttpError(400, "user lockup not found");
+    }
+    if (swap.userLockClaimed) {
+      throw new SimulatorHttpError(400, "user lockup was claimed already");
+    }
+
+    const musig = this.createMusig(
+      swap.userLock.keys,
+      swap.userLock.userPublicKey,
+    );
+    this.tweakMusig(swap.userLock.currency, musig, swap.userLock.swapTree.tree);
+    swap.boltzClaim = { musig, transactionHash: randomBytes(32) };
+
+    return {
+      pubNonce: Buffer.from(musig.getPublicNonce()).toString("hex"),
+      publicKey: swap.userLock.keys.publicKey.toString("hex"),
+      transactionHash: swap.boltzClaim.transactionHash.toString("hex"),
+    };
+  }
+
+  /**
+   * Takes the preimage and the user's signature for Boltz's claim, and co-signs the user's claim in return
+   */
+  private signUserClaim(
+    swap: SimulatedSwap,
+    body: {
+      preimage?: string;
+      signature?: { partialSignature: string; pubNonce: string };
+      toSign?: { index: number; transaction: string; pubNonce: string };
+    },
+  ) {
+    if (this.options.scenario.refuseClaimSignature) {
+      throw new SimulatorHttpError(400, "claim signature refused by scenario");
+    }
+    if (
+      !body?.preimage ||
+      !createHash("sha256")
+        .update(Buffer.from(body.preimage, "hex"))
+        .digest()
+        .equals(swap.preimageHash)
+    ) {
+      throw new SimulatorHttpError(400, "invalid preimage");
+    }
+
+    if (body.signature) {
+      if (!swap.boltzClaim) {
+        throw new SimulatorHttpError(400, "no claim details were requested");
+      }
+
+      const { musig, transactionHash } = swap.boltzClaim;
+      musig.aggregateNonces([
+        [
+          swap.userLock.userPublicKey,
+          Buffer.from(body.signature.pubNonce, "hex"),
+        ],
+      ]);
+      musig.initializeSession(transactionHash);
+      if (
+        !musig.verifyPartial(
+          swap.userLock.userPublicKey,
+          Buffer.from(body.signature.partialSignature, "hex"),
+        )
+      ) {
+        throw new SimulatorHttpError(400, "invalid partial signature");
+      }
+      swap.boltzClaim = undefined;
+      swap.userLockClaimed = true;
+    }
+
+    if (!body.toSign) {
+      return {};
+    }
+    return this.signInput(swap.serverLock, body.toSign);
+  }
+
+  private signUserRefund(
+    swap: SimulatedSwap,
+    toSign: { index: number; transaction: string; pubNonce: string },
+  ) {
+    const refundable: string[] = [
+      "transaction.lockupFailed",
+      "transaction.failed",
+      "swap.expired",
+    ];
+    if (!refundable.includes(swap.status.status)) {
+      throw new SimulatorHttpError(
+        400,
+        `swap in status ${swap.status.status} can't be refunded cooperatively`,
+      );
+    }
+
+    return this.signInput(swap.userLock, toSign);
+  }
+
+  /**
+   * Partially signs the input of a transaction that spends the given lockup via the key path
+   */
+  private signInput(
+    lockup: SimulatedLockup,
+    toSign: { index: number; transaction: string; pubNonce: string },
+  ) {
+    const transaction = this.parseTransaction(
+      lockup.currency,
+      toSign?.transaction,
+    );
+    const spentOutputs = this.getSpentOutputs(lockup.currency, transaction);
+
+    if (!spentOutputs[toSign.index]?.script.equals(lockup.outputScript)) {
+      throw new SimulatorHttpError(
+        400,
+        `input ${toSign.index} doesn't spend the lockup of the swap`,
+      );
+    }
+
+    const musig = this.createMusig(lockup.keys, lockup.userPublicKey);
+    this.tweakMusig(lockup.currency, musig, lockup.swapTree.tree);
+    musig.aggregateNonces([
+      [lockup.userPublicKey, Buffer.from(toSign.pubNonce, "hex")],
+    ]);
+    musig.initializeSession(
+      this.hashForWitnessV1(
+        lockup.currency,
+        transaction,
+        spentOutputs,
+        toSign.index,
+      ),
+    );
+
+    return {
+      pubNonce: Buffer.from(musig.getPublicNonce()).toString("hex"),
+      partialSignature: Buffer.from(musig.signPartial()).toString("hex"),
+    };
+  }
+
+  /**
+   * Accepts transactions whose key path spends carry a valid signature for the outputs they spend,
+   * and confirms them one step later
+   */
+  private broadcastTransaction(currency: ChainSwapCurrency, hex: string) {
+    const transaction = this.parseTransaction(currency, hex);
+    const spentOutputs = this.getSpentOutputs(currency, transaction);
+
+    transaction.ins.forEach((input, index) => {
+      const spentOutput = spentOutputs[index];
+      // Only key path spends of outputs we know about can be checked
+      if (!spentOutput || input.witness.length !== 1) {
+        return;
+      }
+
+      const isValid = ecc.verifySchnorr(
+        this.hashForWitnessV1(currency, transaction, spentOutputs, index),
+        spentOutput.script.subarray(2),
+        input.witness[0],
+      );
+      if (!isValid) {
+        throw new SimulatorHttpError(
+          400,
+          `invalid signature of input ${index}`,
+        );
+      }
+    });
+
+    const id = transaction.getId();
+    const simulated = { currency, transaction, confirmations: 0 };
+    this.transactions.set(id, simulated);
+    console.log(`Boltz simulator: broadcast ${currency} transaction ${id}`);
+
+    const claimedSwaps = Array.from(this.swaps.values()).filter(
+      (swap) =>
+        !swap.claimed &&
+        swap.serverLock.transaction &&
+        spentOutputs.some((output) =>
+          output?.script.equals(swap.serverLock.outputScript),
+        ),
+    );
+    claimedSwaps.forEach((swap) => {
+      swap.claimed = true;
+      this.schedule(
+        (this.options.scenario.afterClaim ?? []).map(
+          (status) => () => this.setStatus(swap, { status }),
+        ),
+      );
+    });
+
+    const { claimFeeRateRise } = this.options.scenario;
+    if (claimedSwaps.length > 0 && claimFeeRateRise) {
+      this.options.feeRates = {
+        BTC: this.options.feeRates.BTC * claimFeeRateRise,
+        "L-BTC": this.options.feeRates["L-BTC"] * claimFeeRateRise,
+      };
+      console.log(
+        `Boltz simulator: fee rates rose to ${JSON.stringify(this.options.feeRates)}, claim ${id} is stuck`,
+      );
+    } else {
+      this.schedule([
+        () => {
+          simulated.confirmations = 1;
+        },
+      ]);
+    }
+
+    return { id };
+  }
+
+  private getTransaction(currency: ChainSwapCurrency, id: string) {
+    const simulated = this.transactions.get(id);
+    if (!simulated || simulated.currency !== currency) {
+      throw new SimulatorHttpError(404, `${currency} transaction ${id} not found`);
+    }
+
+    return {
+      hex: simulated.transaction.toHex(),
+      confirmations: simulated.confirmations,
+    };
+  }
+
+  private getSwap(id: string): SimulatedSwap {
+    const swap = this.swaps.get(id);
+    if (!swap) {
+      throw new SimulatorHttpError(404, `swap ${id} not found`);
+    }
+    return swap;
+  }
+
+  private parseCurrency(currency: string): ChainSwapCurrency {
+    if (currency !== "BTC" && currency !== "L-BTC") {
+      throw new SimulatorHttpError(400, `unknown currency ${currency}`);
+    }
+    return currency;
+  }
+
+  private parseTransaction(
+    currency: ChainSwapCurrency,
+    hex: string,
+  ): AnyTransaction {
+    try {
+      return currency === "L-BTC"
+        ? LiquidTransaction.fromHex(hex)
+        : bitcoin.Transaction.fromHex(hex);
+    } catch (error) {
+      throw new SimulatorHttpError(400, `invalid ${currency} transaction`);
+    }
+  }
+
+  /**
+   * Outputs spent by the inputs of a transaction, undefined for the ones we don't know
+   */
+  private getSpentOutputs(
+    currency: ChainSwapCurrency,
+    transaction: AnyTransaction,
+  ) {
+    return (transaction.ins as { hash: Buffer; index: number }[]).map(
+      (input) => {
+        const id = Buffer.from(input.hash).reverse().toString("hex");
+        const spent = this.transactions.get(id);
+        return spent?.currency === currency
+          ? (spent.transaction.outs[input.index] as AnyTxOutput)
+          : undefined;
+      },
+    );
+  }
+
+  private hashForWitnessV1(
+    currency: ChainSwapCurrency,
+    transaction: AnyTransaction,
+    spentOutputs: AnyTxOutput[],
+    index: number,
+  ): Buffer {
+    if (spentOutputs.some((output) => output === undefined)) {
+      throw new SimulatorHttpError(400, "transaction spends unknown outputs");
+    }
+
+    if (currency === "L-BTC") {
+      return LiquidTaprootUtils.hashForWitnessV1(
+        this.liquidNetwork,
+        spentOutputs as LiquidTxOutput[],
+        transaction as LiquidTransaction,
+        index,
+      );
+    }
+
+    const bitcoinOutputs = spentOutputs as bitcoin.TxOutput[];
+    return (transaction as bitcoin.Transaction).hashForWitnessV1(
+      index,
+      bitcoinOutputs.map((output) => output.script),
+      bitcoinOutputs.map((output) => output.value),
+      bitcoin.Transaction.SIGHASH_DEFAULT,
+    );
+  }
+
+  // Boltz's key comes first, like in the sessions ChainToChainSwapService creates
+  private createMusig(keys: ECPairInterface, userPublicKey: Buffer) {
+    return new Musig(this.zkp, keys, randomBytes(32), [
+      keys.publicKey,
+      userPublicKey,
+    ]);
+  }
+
+  private tweakMusig(currency: ChainSwapCurrency, musig: Musig, tree: Taptree) {
+    return currency === "L-BTC"
+      ? LiquidTaprootUtils.tweakMusig(musig, tree)
+      : TaprootUtils.tweakMusig(musig, tree);
+  }
+}
@@ -1,101 +1,164 @@
 import { WebSocket } from "ws";
-import { Subject } from "rxjs";
+import { BehaviorSubject, Observable, Subject } from "rxjs";
+import {
+  SwapUpdateDto,
+  swapUpdateMessageValidator,
+} from "./dto/swap-status.dto";
+import {
+  isArrayOf,
+  isObject,
+  isOptional,
+  isString,
+  parseBoltzDto,
+} from "./dto/dto-validation";
+import { BoltzSession } from "./session-recording";
+import { JsonLogger, Logger } from "./logger";
+import { ChainSwapMetrics } from "./metrics";
+
+export enum WebSocketConnectionState {
+  CONNECTING = "connecting",
+  CONNECTED = "connected",
+  RECONNECTING = "reconnecting",
+  DISCONNECTED = "disconnected",
+}
+
+export interface BoltzWebsocketClientOptions {
+  connectTimeoutMs?: number;
+  // Reconnect delays double with every failed attempt, up to the maximum
+  reconnectInitialDelayMs?: number;
+  reconnectMaxDelayMs?: number;
+  // The connection is considered dead when a ping isn't answered in time
+  pingIntervalMs?: number;
+  pongTimeoutMs?: number;
+}
+
+export const defaultBoltzWebsocketClientOptions: Required<BoltzWebsocketClientOptions> =
+  {
+    connectTimeoutMs: 10_000,
+    reconnectInitialDelayMs: 1_000,
+    reconnectMaxDelayMs: 30_000,
+    pingIntervalMs: 15_000,
+    pongTimeoutMs: 10_000,
+  };
+
+/**
+ * Envelope of every message Boltz sends over the WebSocket
+ */
+export interface BoltzWebSocketMessage {
+  event: string;
+  channel?: string;
+  args?: unknown[];
+}
+
+const webSocketMessageValidator = isObject<BoltzWebSocketMessage>({
+  event: isString,
+  channel: isOptional(isString),
+  args: isOptional(isArrayOf((value: unknown) => value)),
+});
 
 export class BoltzWebsocketClient {
   private ws: WebSocket;
-  private messageSubject = new Subject<any>();
+  private messageSubject = new Subject<BoltzWebSocketMessage>();
+  private connectionStateSubject =
+    new BehaviorSubject<WebSocketConnectionState>(
+      WebSocketConnectionState.DISCONNECTED,
+    );
   private webSocketEndpoint: string;
+  private options: Required<BoltzWebsocketClientOptions>;
   private isConnected = false;
+  private shouldReconnect = false;
+  private reconnectAttempt = 0;
+  private reconnectTimer?: NodeJS.Timeout;
+  private pingTimer?: NodeJS.Timeout;
+  private pongTimeout?: NodeJS.Timeout;
+  // Channel to subscribed args, replayed after every reconnect
+  private subscriptions = new Map<string, Set<string>>();
+  // Swap id to the stream its "swap.update" events are routed to
+  private swapUpdateSubjects = new Map<string, Subject<SwapUpdateDto>>();
 
-  constructor(webSocketUrl: string) {
+  constructor(
+    webSocketUrl: string,
+    options: BoltzWebsocketClientOptions = {},
+    private session: BoltzSession = {},
+    private logger: Logger = new JsonLogger(),
+    private metrics?: ChainSwapMetrics,
+  ) {
     this.webSocketEndpoint = webSocketUrl;
+    this.options = { ...defaultBoltzWebsocketClientOptions, ...options };
   }
 
   async connect(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      console.log(`Connecting to Boltz WebSocket: ${this.webSocketEndpoint}`);
-
-      this.ws = new WebSocket(this.webSocketEndpoint);
-
-      this.ws.on("open", () => {
-        console.log("Connected to Boltz WebSocket");
-        this.isConnected = true;
-        resolve();
-      });
+    if (this.session.replayer) {
+      // Recorded frames take the place of the socket
+      this.logger.info("Replaying Boltz WebSocket from recording");
+      this.isConnected = true;
+      this.setConnectionState(WebSocketConnectionState.CONNECTED);
+      this.session.replayer.onWebSocketFrame((message) =>
+        this.handleMessage(message),
+      );
+      return;
+    }
 
-      this.ws.on("message", (data: Buffer) => {
-        try {
-          const message = JSON.parse(data.toString());
-          console.log(
-            "WebSocket message received:",
-            JSON.stringify(message, null, 2),
-          );
-          this.messageSubject.next(message);
-        } catch (error) {
-          console.error("Error parsing WebSocket message:", error);
-        }
-      });
+    this.shouldReconnect = true;
 
-      this.ws.on("error", (error) => {
-        console.error("WebSocket error:", error);
-        this.isConnected = false;
+    return new Promise((resolve, reject) => {
+      this.openSocket(resolve, (error) => {
+        // Only established connections are kept alive
+        this.shouldReconnect = false;
         reject(error);
       });
-
-      this.ws.on("close", (code, reason) => {
-        console.warn(
-          `Disconnected from Boltz WebSocket. Code: ${code}, Reason: ${reason}`,
-        );
-        this.isConnected = false;
-      });
-
-      // Set timeout for connection
-      setTimeout(() => {
-        if (!this.isConnected) {
-          reject(new Error("WebSocket connection timeout"));
-        }
-      }, 10000);
     });
   }
 
   disconnect() {
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+    this.shouldReconnect = false;
+    clearTimeout(this.reconnectTimer);
+    this.stopHeartbeat();
+
+    if (this.ws?.readyState === WebSocket.OPEN) {
       this.ws.close();
-      this.isConnected = false;
+    } else if (this.ws && this.ws.readyState !== WebSocket.CLOSED) {
+      // A reconnect that is still connecting would otherwise open after the disconnect
+      this.ws.terminate();
     }
+    this.session.replayer?.stop();
+    this.isConnected = false;
+    this.setConnectionState(WebSocketConnectionState.DISCONNECTED);
   }
 
   subscribe(channel: string, args: string[]) {
-    if (this.isConnected && this.ws.readyState === WebSocket.OPEN) {
-      const subscribeMessage = {
-        op: "subscribe",
-        channel,
-        args,
-      };
-      console.log(
-        "Subscribing to channel:",
-        JSON.stringify(subscribeMessage, null, 2),
-      );
-      this.ws.send(JSON.stringify(subscribeMessage));
+    if (!this.subscriptions.has(channel)) {
+      this.subscriptions.set(channel, new Set());
+    }
+    args.forEach((arg) => this.subscriptions.get(channel).add(arg));
+
+    if (this.isWebSocketConnected()) {
+      this.send("subscribe", channel, args);
     } else {
-      console.error("WebSocket is not connected - cannot subscribe");
+      this.logger.warn(
+        "WebSocket is not connected - subscribing once the connection is restored",
+        { channel, args },
+      );
     }
   }
 
   unsubscribe(channel: string, args: string[]) {
-    if (this.isConnected && this.ws.readyState === WebSocket.OPEN) {
-      const unsubscribeMessage = {
-        op: "unsubscribe",
+    args.forEach((arg) => this.subscriptions.get(channel)?.delete(arg));
+
+    if (channel === "swap.update") {
+      args.forEach((swapId) => {
+        this.swapUpdateSubjects.get(swapId)?.complete();
+        this.swapUpdateSubjects.delete(swapId);
+      });
+    }
+
+    if (this.isWebSocketConnected()) {
+      this.send("unsubscribe", channel, args);
+    } else {
+      this.logger.error("WebSocket is not connected - cannot unsubscribe", {
         channel,
         args,
-      };
-      console.log(
-        "Unsubscribing from channel:",
-        JSON.stringify(unsubscribeMessage, null, 2),
-      );
-      this.ws.send(JSON.stringify(unsubscribeMessage));
-    } else {
-      console.error("WebSocket is not connected - cannot unsubscribe");
+      });
     }
   }
 
@@ -103,7 +166,234 @@ export class BoltzWebsocketClient {
     return this.messageSubject.asObservable();
   }
 
+  /**
+   * Subscribes to the updates of a single swap. The stream completes when the swap
+   * is unsubscribed via `unsubscribeSwapUpdates`
+   */
+  subscribeSwapUpdates(swapId: string): Observable<SwapUpdateDto> {
+    if (!this.swapUpdateSubjects.has(swapId)) {
+      this.swapUpdateSubjects.set(swapId, new Subject<SwapUpdateDto>());
+    }
+    this.subscribe("swap.update", [swapId]);
+
+    return this.swapUpdateSubjects.get(swapId).asObservable();
+  }
+
+  unsubscribeSwapUpdates(swapId: string) {
+    this.unsubscribe("swap.update", [swapId]);
+  }
+
+  onConnectionState() {
+    return this.connectionStateSubject.asObservable();
+  }
+
   isWebSocketConnected(): boolean {
-    return this.isConnected && this.ws.readyState === WebSocket.OPEN;
+    return (
+      this.isConnected &&
+      (this.session.replayer !== undefined ||
+        this.ws?.readyState === WebSocket.OPEN)
+    );
+  }
+
+  private openSocket(
+    onOpen?: () => void,
+    onConnectError?: (error: Error) => void,
+  ) {
+    this.logger.info("Connecting to Boltz WebSocket", {
+      url: this.webSocketEndpoint,
+    });
+    this.setConnectionState(
+      this.reconnectAttempt > 0
+        ? WebSocketConnectionState.RECONNECTING
+        : WebSocketConnectionState.CONNECTING,
+    );
+
+    const ws = new WebSocket(this.webSocketEndpoint);
+    this.ws = ws;
+
+    // Set timeout for connection
+    const connectTimeout = setTimeout(() => {
+      if (!this.isConnected) {
+        onConnectError?.(new Error("WebSocket connection timeout"));
+        ws.terminate();
+      }
+    }, this.options.connectTimeoutMs);
+
+    ws.on("open", () => {
+      clearTimeout(connectTimeout);
+      if (!this.shouldReconnect || ws !== this.ws) {
+        onConnectError?.(new Error("WebSocket disconnected while connecting"));
+        ws.terminate();
+        return;
+      }
+
+      this.logger.info("Connected to Boltz WebSocket");
+      this.isConnected = true;
+      this.reconnectAttempt = 0;
+      this.setConnectionState(WebSocketConnectionState.CONNECTED);
+      this.startHeartbeat();
+      this.resubscribe();
+      onOpen?.();
+    });
+
+    ws.on("message", (data: Buffer) => {
+      let message: unknown;
+      try {
+        message = JSON.parse(data.toString());
+      } catch (error) {
+        this.logger.error("Error parsing WebSocket message", { error });
+        return;
+      }
+
+      this.session.recorder?.record({
+        type: "ws",
+        direction: "received",
+        message,
+      });
+      this.handleMessage(message);
+    });
+
+    ws.on("pong", () => {
+      clearTimeout(this.pongTimeout);
+      this.pongTimeout = undefined;
+    });
+
+    ws.on("error", (error) => {
+      this.logger.error("WebSocket error", { error });
+      if (!this.isConnected) {
+        clearTimeout(connectTimeout);
+        onConnectError?.(error);
+      }
+    });
+
+    ws.on("close", (code, reason) => {
+      this.logger.warn("Disconnected from Boltz WebSocket", {
+        code,
+        reason: reason.toString(),
+      });
+      clearTimeout(connectTimeout);
+
+      // Closing a socket we already replaced must not trigger another reconnect
+      if (ws !== this.ws) {
+        return;
+      }
+
+      this.isConnected = false;
+      this.stopHeartbeat();
+
+      if (this.shouldReconnect) {
+        this.scheduleReconnect();
+      } else {
+        this.setConnectionState(WebSocketConnectionState.DISCONNECTED);
+      }
+    });
+  }
+
+  private handleMessage(data: unknown) {
+    try {
+      const message = parseBoltzDto(
+        "WebSocket message",
+        webSocketMessageValidator,
+        data,
+      );
+      // Raw payloads only at debug level
+      this.logger.debug("WebSocket message received", { message });
+      this.messageSubject.next(message);
+      this.routeSwapUpdates(message);
+    } catch (error) {
+      this.logger.error("Error parsing WebSocket message", { error });
+    }
+  }
+
+  private scheduleReconnect() {
+    const delay = Math.min(
+      this.options.reconnectInitialDelayMs * 2 ** this.reconnectAttempt,
+      this.options.reconnectMaxDelayMs,
+    );
+    this.reconnectAttempt++;
+    this.metrics?.webSocketReconnects.inc();
+
+    this.logger.info("Reconnecting to Boltz WebSocket", {
+      delayMs: delay,
+      attempt: this.reconnectAttempt,
+    });
+    this.setConnectionState(WebSocketConnectionState.RECONNECTING);
+    this.reconnectTimer = setTimeout(() => this.openSocket(), delay);
+  }
+
+  private startHeartbeat() {
+    this.stopHeartbeat();
+
+    this.pingTimer = setInterval(() => {
+      // Still waiting for the answer to the previous ping
+      if (this.pongTimeout) {
+        return;
+      }
+
+      this.pongTimeout = setTimeout(() => {
+        this.logger.warn("Boltz WebSocket did not answer ping - reconnecting");
+        this.ws.terminate();
+      }, this.options.pongTimeoutMs);
+      this.ws.ping();
+    }, this.options.pingIntervalMs);
+  }
+
+  private stopHeartbeat() {
+    clearInterval(this.pingTimer);
+    clearTimeout(this.pongTimeout);
+    this.pongTimeout = undefined;
+  }
+
+  private resubscribe() {
+    this.subscriptions.forEach((args, channel) => {
+      if (args.size > 0) {
+        this.send("subscribe", channel, Array.from(args));
+      }
+    });
+  }
+
+  private send(op: "subscribe" | "unsubscribe", channel: string, args: string[]) {
+    const message = {
+      op,
+      channel,
+      args,
+    };
+    this.logger.debug(
+      op === "subscribe"
+        ? "Subscribing to channel"
+        : "Unsubscribing from channel",
+      { channel, args },
+    );
+    this.session.recorder?.record({ type: "ws", direction: "sent", message });
+
+    if (this.session.replayer) {
+      this.session.replayer.replayWebSocketSend(message);
+      return;
+    }
+    this.ws.send(JSON.stringify(message));
+  }
+
+  private routeSwapUpdates(message: BoltzWebSocketMessage) {
+    if (message.event !== "update" || message.channel !== "swap.update") {
+      return;
+    }
+
+    try {
+      parseBoltzDto(
+        "swap update",
+        swapUpdateMessageValidator,
+        message,
+      ).args.forEach((update) => {
+        this.swapUpdateSubjects.get(update.id)?.next(update);
+      });
+    } catch (error) {
+      this.logger.error("Dropping invalid swap update", { error });
+    }
+  }
+
+  private setConnectionState(state: WebSocketConnectionState) {
+    if (this.connectionStateSubject.getValue() !== state) {
+      this.connectionStateSubject.next(state);
+    }
   }
 }
@@ -0,0 +1,497 @@
+import { readFileSync } from "fs";
+import * as bitcoin from "bitcoinjs-lib";
+import { address as LiquidAddress } from "liquidjs-lib";
+import * as ecc from "tiny-secp256k1";
+import {
+  ChainToChainSwapServiceOptions,
+  defaultAmountTolerancePercentage,
+  defaultClaimFallbackOptions,
+  defaultMaxTimeoutBlocks,
+  defaultQuoteRenegotiationOptions,
+} from "./chain-to-chain-swap.service";
+import {
+  BoltzWebsocketClientOptions,
+  defaultBoltzWebsocketClientOptions,
+} from "./boltz-websocket-client";
+import { defaultClaimFeeBumperOptions } from "./claim-fee-bumper";
+import { ChainSwapCurrency, ChainSwapDirection } from "./chain-swap-direction";
+import {
+  CHAIN_SWAP_NETWORKS,
+  ChainSwapNetwork,
+  ChainSwapNetworks,
+  resolveChainSwapNetworks,
+} from "./chain-swap-network";
+import { SwapKeyProvider } from "./swap-key-provider";
+import { createDataSource } from "./data-source";
+import { LogLevel } from "./logger";
+
+export interface ChainSwapConfig {
+  network: ChainSwapNetwork;
+  boltz: {
+    apiUrl: string;
+    webSocketUrl: string;
+    webSocket: Required<BoltzWebsocketClientOptions>;
+  };
+  databasePath: string;
+  // At most one of them, required on mainnet
+  mnemonic?: string;
+  xprv?: string;
+  logLevel: LogLevel;
+  // Delay between requests for a cooperative claim signature
+  claimRetryDelayMs: number;
+  maxTimeoutBlocks: Record<ChainSwapCurrency, number>;
+  // Highest fee rate in sat/vbyte a claim fee bump may pay
+  maxFeeRate: Record<ChainSwapCurrency, number>;
+  amountTolerancePercentage: number;
+  maxUnderpaymentPercentage: number;
+  // Defaults of swaps started without explicit parameters, like the one of test-websocket.ts
+  swap: {
+    direction: ChainSwapDirection;
+    amount: number;
+    addresses: Partial<Record<ChainSwapCurrency, string>>;
+  };
+}
+
+type PartialConfig<T> = {
+  [K in keyof T]?: T[K] extends object ? PartialConfig<T[K]> : T[K];
+};
+
+/**
+ * Settings of a config file, on top of which environment variables are applied
+ */
+export type ChainSwapConfigInput = PartialConfig<ChainSwapConfig>;
+
+export class ChainSwapConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(
+      `Invalid chain swap configuration:\n${problems.map((problem) => `- ${problem}`).join("\n")}`,
+    );
+    this.name = "ChainSwapConfigError";
+  }
+}
+
+const defaultBoltzEndpoints: Record<
+  ChainSwapNetwork,
+  { apiUrl: string; webSocketUrl: string }
+> = {
+  mainnet: {
+    apiUrl: "https://api.boltz.exchange",
+    webSocketUrl: "wss://api.boltz.exchange/v2/ws",
+  },
+  testnet: {
+    apiUrl: "https://api.testnet.boltz.exchange",
+    webSocketUrl: "wss://api.testnet.boltz.exchange/v2/ws",
+  },
+  // Boltz backend of the regtest environment
+  regtest: {
+    apiUrl: "http://localhost:9001",
+    webSocketUrl: "ws://localhost:9001/v2/ws",
+  },
+};
+
+const getDefaults = (network: ChainSwapNetwork): ChainSwapConfig => ({
+  network,
+  boltz: {
+    ...defaultBoltzEndpoints[network],
+    webSocket: { ...defaultBoltzWebsocketClientOptions },
+  },
+  databasePath: "swaps.sqlite",
+  logLevel: "info",
+  claimRetryDelayMs: defaultClaimFallbackOptions.retryDelayMs,
+  maxTimeoutBlocks: { ...defaultMaxTimeoutBlocks },
+  maxFeeRate: {
+    BTC: defaultClaimFeeBumperOptions.maxFeeRate.BTC,
+    "L-BTC": defaultClaimFeeBumperOptions.maxFeeRate["L-BTC"],
+  },
+  amountTolerancePercentage: defaultAmountTolerancePercentage,
+  maxUnderpaymentPercentage:
+    defaultQuoteRenegotiationOptions.maxUnderpaymentPercentage,
+  swap: {
+    direction: ChainSwapDirection.LIQUID_TO_BITCOIN,
+    amount: 25_000,
+    addresses: {},
+  },
+});
+
+// Environment variables override the config file, which overrides the defaults
+const environmentVariables: {
+  name: string;
+  path: string[];
+  type: "string" | "number";
+}[] = [
+  { name: "NETWORK", path: ["network"], type: "string" },
+  { name: "BOLTZ_API_URL", path: ["boltz", "apiUrl"], type: "string" },
+  {
+    name: "BOLTZ_WEBSOCKET_URL",
+    path: ["boltz", "webSocketUrl"],
+    type: "string",
+  },
+  {
+    name: "BOLTZ_WEBSOCKET_CONNECT_TIMEOUT_MS",
+    path: ["boltz", "webSocket", "connectTimeoutMs"],
+    type: "number",
+  },
+  {
+    name: "BOLTZ_WEBSOCKET_PONG_TIMEOUT_MS",
+    path: ["boltz", "webSocket", "pongTimeoutMs"],
+    type: "number",
+  },
+  { name: "DATABASE_PATH", path: ["databasePath"], type: "string" },
+  { name: "MNEMONIC", path: ["mnemonic"], type: "string" },
+  { name: "XPRV", path: ["xprv"], type: "string" },
+  { name: "LOG_LEVEL", path: ["logLevel"], type: "string" },
+  {
+    name: "CLAIM_RETRY_DELAY_MS",
+    path: ["claimRetryDelayMs"],
+    type: "number",
+  },
+  {
+    name: "MAX_TIMEOUT_BLOCKS_BTC",
+    path: ["maxTimeoutBlocks", "BTC"],
+    type: "number",
+  },
+  {
+    name: "MAX_TIMEOUT_BLOCKS_LBTC",
+    path: ["maxTimeoutBlocks", "L-BTC"],
+    type: "number",
+  },
+  { name: "MAX_FEE_RATE_BTC", path: ["maxFeeRate", "BTC"], type: "number" },
+  {
+    name: "MAX_FEE_RATE_LBTC",
+    path: ["maxFeeRate", "L-BTC"],
+    type: "number",
+  },
+  {
+    name: "AMOUNT_TOLERANCE_PERCENTAGE",
+    path: ["amountTolerancePercentage"],
+    type: "number",
+  },
+  {
+    name: "MAX_UNDERPAYMENT_PERCENTAGE",
+    path: ["maxUnderpaymentPercentage"],
+    type: "number",
+  },
+  { name: "SWAP_DIRECTION", path: ["swap", "direction"], type: "string" },
+  { name: "SWAP_AMOUNT", path: ["swap", "amount"], type: "number" },
+  { name: "BTC_ADDRESS", path: ["swap", "addresses", "BTC"], type: "string" },
+  {
+    name: "LIQUID_ADDRESS",
+    path: ["swap", "addresses", "L-BTC"],
+    type: "string",
+  },
+];
+
+const logLevels: LogLevel[] = ["debug", "info", "warn", "error"];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const getPath = (value: unknown, path: string[]): unknown =>
+  path.reduce<unknown>(
+    (current, key) => (isPlainObject(current) ? current[key] : undefined),
+    value,
+  );
+
+const setPath = (
+  target: Record<string, unknown>,
+  path: string[],
+  value: unknown,
+) => {
+  const parent = path
+    .slice(0, -1)
+    .reduce<Record<string, unknown>>((current, key) => {
+      if (!isPlainObject(current[key])) {
+        current[key] = {};
+      }
+      return current[key] as Record<string, unknown>;
+    }, target);
+  parent[path[path.length - 1]] = value;
+};
+
+const leafPaths = (value: unknown, path: string[] = []): string[][] =>
+  isPlainObject(value)
+    ? Object.keys(value).flatMap((key) => leafPaths(value[key], [...path, key]))
+    : [path];
+
+const mergeInto = (target: Record<string, unknown>, source: unknown) =>
+  leafPaths(source).forEach((path) =>
+    setPath(target, path, getPath(source, path)),
+  );
+
+/**
+ * Collects every problem of a config instead of stopping at the first, naming each setting and
+ * where its value came from
+ */
+class ConfigValidation {
+  readonly problems: string[] = [];
+
+  constructor(
+    private input: Record<string, unknown>,
+    private sources: Map<string, string>,
+  ) {}
+
+  get(path: string[]): unknown {
+    return getPath(this.input, path);
+  }
+
+  isSet(path: string[]) {
+    return this.get(path) !== undefined;
+  }
+
+  fail(path: string[], message: string) {
+    const source = this.sources.get(path.join("."));
+    this.problems.push(
+      `${path.join(".")}${source ? ` (${source})` : ""}: ${message}`,
+    );
+  }
+
+  /**
+   * Fails when the value is set and the check returns a message
+   */
+  check(path: string[], check: (value: unknown) => string | undefined) {
+    if (!this.isSet(path)) {
+      return;
+    }
+    const message = check(this.get(path));
+    if (message) {
+      this.fail(path, message);
+    }
+  }
+}
+
+const describe = (value: unknown) => JSON.stringify(value);
+
+const oneOf =
+  (expected: readonly string[]) =>
+  (value: unknown): string | undefined =>
+    expected.includes(value as string)
+      ? undefined
+      : `expected one of ${expected.join(", ")}, got ${describe(value)}`;
+
+const url =
+  (protocols: string[]) =>
+  (value: unknown): string | undefined => {
+    try {
+      if (
+        typeof value === "string" &&
+        protocols.includes(new URL(value).protocol)
+      ) {
+        return undefined;
+      }
+    } catch (error) {
+      // Reported below like any other value that isn't a URL
+    }
+    return `expected a URL starting with ${protocols.map((protocol) => `${protocol}//`).join(" or ")}, got ${describe(value)}`;
+  };
+
+const numberInRange =
+  (min: number, max = Infinity, integer = false) =>
+  (value: unknown): string | undefined =>
+    typeof value === "number" &&
+    Number.isFinite(value) &&
+    value >= min &&
+    value <= max &&
+    (!integer || Number.isInteger(value))
+      ? undefined
+      : `expected ${integer ? "an integer" : "a number"} ${max === Infinity ? `of at least ${min}` : `between ${min} and ${max}`}, got ${describe(value)}`;
+
+const nonEmptyString = (value: unknown): string | undefined =>
+  typeof value === "string" && value.length > 0
+    ? undefined
+    : `expected a non-empty string, got ${describe(value)}`;
+
+const addressOn =
+  (currency: ChainSwapCurrency, networks: ChainSwapNetworks, name: string) =>
+  (value: unknown): string | undefined => {
+    try {
+      if (currency === "BTC") {
+        bitcoin.address.toOutputScript(value as string, networks.bitcoin);
+      } else {
+        LiquidAddress.toOutputScript(value as string, networks.liquid);
+      }
+      return undefined;
+    } catch (error) {
+      return `expected a ${currency} address of ${name}, got ${describe(value)}`;
+    }
+  };
+
+const validate = (
+  input: Record<string, unknown>,
+  sources: Map<string, string>,
+  network: ChainSwapNetwork,
+) => {
+  const validation = new ConfigValidation(input, sources);
+  // Decoding Taproot addresses needs it
+  bitcoin.initEccLib(ecc);
+
+  validation.check(["network"], oneOf(CHAIN_SWAP_NETWORKS));
+  // The other settings are still checked when the network is unknown
+  const knownNetwork = CHAIN_SWAP_NETWORKS.includes(network)
+    ? network
+    : "regtest";
+  const networks = resolveChainSwapNetworks(knownNetwork);
+
+  const knownPaths = new Set(
+    [
+      ...leafPaths(getDefaults(knownNetwork)),
+      ["mnemonic"],
+      ["xprv"],
+      ["swap", "addresses", "BTC"],
+      ["swap", "addresses", "L-BTC"],
+    ].map((path) => path.join(".")),
+  );
+  leafPaths(input)
+    .filter((path) => path.length > 0 && !knownPaths.has(path.join(".")))
+    .forEach((path) => validation.fail(path, "unknown setting"));
+
+  validation.check(["boltz", "apiUrl"], url(["http:", "https:"]));
+  validation.check(["boltz", "webSocketUrl"], url(["ws:", "wss:"]));
+  Object.keys(defaultBoltzWebsocketClientOptions).forEach((key) =>
+    validation.check(
+      ["boltz", "webSocket", key],
+      numberInRange(1, Infinity, true),
+    ),
+  );
+  validation.check(["databasePath"], nonEmptyString);
+  validation.check(["logLevel"], oneOf(logLevels));
+  validation.check(["claimRetryDelayMs"], numberInRange(0, Infinity, true));
+
+  (["BTC", "L-BTC"] as ChainSwapCurrency[]).forEach((currency) => {
+    validation.check(
+      ["maxTimeoutBlocks", currency],
+      numberInRange(1, Infinity, true),
+    );
+    validation.check(["maxFeeRate", currency], numberInRange(0.1));
+    validation.check(
+      ["swap", "addresses", currency],
+      addressOn(currency, networks, knownNetwork),
+    );
+  });
+  validation.check(["amountTolerancePercentage"], numberInRange(0, 100));
+  validation.check(["maxUnderpaymentPercentage"], numberInRange(0, 100));
+  validation.check(
+    ["swap", "direction"],
+    oneOf(Object.values(ChainSwapDirection)),
+  );
+  validation.check(["swap", "amount"], numberInRange(1, Infinity, true));
+
+  // Secrets are never part of the messages
+  if (validation.isSet(["mnemonic"]) && validation.isSet(["xprv"])) {
+    validation.fail(["xprv"], "set either a mnemonic or an xprv, not both");
+  } else if (validation.isSet(["mnemonic"])) {
+    try {
+      SwapKeyProvider.fromMnemonic(
+        validation.get(["mnemonic"]) as string,
+        networks.bitcoin,
+      );
+    } catch (error) {
+      validation.fail(["mnemonic"], "not a valid BIP39 mnemonic");
+    }
+  } else if (validation.isSet(["xprv"])) {
+    try {
+      SwapKeyProvider.fromXprv(
+        validation.get(["xprv"]) as string,
+        networks.bitcoin,
+      );
+    } catch (error) {
+      validation.fail(
+        ["xprv"],
+        `not an extended private key of the ${network} network`,
+      );
+    }
+  } else if (network === "mainnet") {
+    validation.fail(
+      ["mnemonic"],
+      "a mnemonic or xprv is required on mainnet, swaps with a random seed can't be recovered after a restart",
+    );
+  }
+
+  if (validation.problems.length > 0) {
+    throw new ChainSwapConfigError(validation.problems);
+  }
+};
+
+export interface LoadChainSwapConfigOptions {
+  // Defaults to process.env
+  env?: Record<string, string | undefined>;
+  // JSON file with a ChainSwapConfigInput, defaults to the CHAIN_SWAP_CONFIG environment variable
+  file?: string;
+}
+
+/**
+ * Loads the config from a JSON file and environment variables on top of the defaults of its
+ * network, and validates it, throwing a ChainSwapConfigError with every problem found
+ */
+export const loadChainSwapConfig = (
+  options: LoadChainSwapConfigOptions = {},
+): ChainSwapConfig => {
+  const env = options.env ?? process.env;
+  const file = options.file ?? env.CHAIN_SWAP_CONFIG;
+  const input: Record<string, unknown> = {};
+  const sources = new Map<string, string>();
+
+  if (file) {
+    let content: unknown;
+    try {
+      content = JSON.parse(readFileSync(file, "utf-8"));
+    } catch (error) {
+      throw new ChainSwapConfigError([
+        `Failed to read config file ${file}: ${error.message}`,
+      ]);
+    }
+    if (!isPlainObject(content)) {
+      throw new ChainSwapConfigError([
+        `Config file ${file} has to contain a JSON object`,
+      ]);
+    }
+    mergeInto(input, content);
+    leafPaths(content).forEach((path) => sources.set(path.join("."), file));
+  }
+
+  const problems: string[] = [];
+  environmentVariables.forEach(({ name, path, type }) => {
+    const value = env[name];
+    if (value === undefined || value === "") {
+      return;
+    }
+    if (type === "number" && !Number.isFinite(Number(value))) {
+      problems.push(
+        `${path.join(".")} (${name}): expected a number, got ${describe(value)}`,
+      );
+      return;
+    }
+    setPath(input, path, type === "number" ? Number(value) : value);
+    sources.set(path.join("."), name);
+  });
+  if (problems.length > 0) {
+    throw new ChainSwapConfigError(problems);
+  }
+
+  const network = (input.network as ChainSwapNetwork) ?? "regtest";
+  validate(input, sources, network);
+
+  const config = getDefaults(network) as unknown as Record<string, unknown>;
+  mergeInto(config, input);
+  return config as unknown as ChainSwapConfig;
+};
+
+/**
+ * Options of ChainToChainSwapService for the config. The URLs and network are passed to its
+ * constructor directly
+ */
+export const toChainSwapServiceOptions = (
+  config: ChainSwapConfig,
+): ChainToChainSwapServiceOptions => ({
+  dataSource: createDataSource(config.databasePath),
+  mnemonic: config.mnemonic,
+  xprv: config.xprv,
+  logLevel: config.logLevel,
+  webSocket: config.boltz.webSocket,
+  claimFallback: { retryDelayMs: config.claimRetryDelayMs },
+  claimFeeBump: { maxFeeRate: config.maxFeeRate },
+  quoteRenegotiation: {
+    maxUnderpaymentPercentage: config.maxUnderpaymentPercentage,
+  },
+  amountTolerancePercentage: config.amountTolerancePercentage,
+  maxTimeoutBlocks: config.maxTimeoutBlocks,
+});
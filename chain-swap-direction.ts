@@ -0,0 +1,19 @@
+export type ChainSwapCurrency = "BTC" | "L-BTC";
+
+export enum ChainSwapDirection {
+  LIQUID_TO_BITCOIN = "L-BTC/BTC",
+  BITCOIN_TO_LIQUID = "BTC/L-BTC",
+}
+
+/**
+ * Currency the user locks up (`from`) and the currency we claim from Boltz (`to`)
+ */
+export const getChainSwapCurrencies = (
+  direction: ChainSwapDirection,
+): { from: ChainSwapCurrency; to: ChainSwapCurrency } => {
+  const [from, to] = direction.split("/") as [
+    ChainSwapCurrency,
+    ChainSwapCurrency,
+  ];
+  return { from, to };
+};
@@ -0,0 +1,157 @@
+import { randomUUID } from "crypto";
+import { ChainSwapDirection } from "./chain-swap-direction";
+import { ChainSwapStatusChanges } from "./chain-swap.repository";
+import {
+  ChainSwapClaimType,
+  ChainSwapTransactionStatus,
+  WithdrawChainSwapTransaction,
+} from "./entities/withdraw-chain-swap-transaction.entity";
+
+interface ChainSwapEventBase<T extends string> {
+  // Unique per event, so receivers can drop webhooks delivered more than once
+  id: string;
+  type: T;
+  swapId: string;
+  direction: ChainSwapDirection;
+  occurredAt: string;
+}
+
+export interface SwapCreatedEvent extends ChainSwapEventBase<"SwapCreated"> {
+  amount: number;
+  lockupAmount: number;
+  claimAmount: number;
+  // Where the user has to send the lockup amount
+  lockupAddress?: string;
+}
+
+export interface LockupDetectedEvent
+  extends ChainSwapEventBase<"LockupDetected"> {
+  lockupTransactionId: string | null;
+  confirmed: boolean;
+}
+
+export interface ClaimBroadcastEvent
+  extends ChainSwapEventBase<"ClaimBroadcast"> {
+  claimTransactionId: string;
+  claimType: ChainSwapClaimType | null;
+}
+
+export interface SwapCompletedEvent
+  extends ChainSwapEventBase<"SwapCompleted"> {
+  claimAmount: number;
+  claimTransactionId: string | null;
+}
+
+export interface SwapFailedEvent extends ChainSwapEventBase<"SwapFailed"> {
+  status: "LOCKUP_FAILED" | "CLAIM_FAILED";
+}
+
+export interface SwapRefundedEvent extends ChainSwapEventBase<"SwapRefunded"> {
+  refundTransactionId: string | null;
+}
+
+export type ChainSwapEvent =
+  | SwapCreatedEvent
+  | LockupDetectedEvent
+  | ClaimBroadcastEvent
+  | SwapCompletedEvent
+  | SwapFailedEvent
+  | SwapRefundedEvent;
+
+export type ChainSwapEventType = ChainSwapEvent["type"];
+
+type EventData<T extends ChainSwapEvent> = Omit<
+  T,
+  keyof ChainSwapEventBase<string>
+>;
+
+export const createChainSwapEvent = <T extends ChainSwapEvent>(
+  type: T["type"],
+  swap: Pick<WithdrawChainSwapTransaction, "swapId" | "direction">,
+  data: EventData<T>,
+): T =>
+  ({
+    id: randomUUID(),
+    type,
+    swapId: swap.swapId,
+    direction: swap.direction,
+    occurredAt: new Date().toISOString(),
+    ...data,
+  }) as T;
+
+/**
+ * Events of a status change of a swap, which has the changes applied already. Updates that don't
+ * change anything another system cares about, like a fee bump via CPFP, have none
+ */
+export const getStatusChangeEvents = (
+  swap: WithdrawChainSwapTransaction,
+  from: ChainSwapTransactionStatus,
+  changes: ChainSwapStatusChanges,
+): ChainSwapEvent[] => {
+  const to = swap.status;
+
+  switch (to) {
+    case ChainSwapTransactionStatus.LOCKUP_PENDING:
+    case ChainSwapTransactionStatus.LOCKUP_CONFIRMED:
+      // Swaps are pending from their creation on Boltz, the lockup is detected once its
+      // transaction is recorded
+      if (
+        to === ChainSwapTransactionStatus.LOCKUP_PENDING
+          ? !changes.lockupTransactionId
+          : from === to
+      ) {
+        return [];
+      }
+      return [
+        createChainSwapEvent<LockupDetectedEvent>("LockupDetected", swap, {
+          lockupTransactionId: swap.lockupTransactionId ?? null,
+          confirmed: to === ChainSwapTransactionStatus.LOCKUP_CONFIRMED,
+        }),
+      ];
+
+    case ChainSwapTransactionStatus.CLAIM_PENDING:
+      // Also sent for replacements, which have a new transaction id
+      if (!changes.claimTransactionId) {
+        return [];
+      }
+      return [
+        createChainSwapEvent<ClaimBroadcastEvent>("ClaimBroadcast", swap, {
+          claimTransactionId: changes.claimTransactionId,
+          claimType: swap.claimType ?? null,
+        }),
+      ];
+
+    case ChainSwapTransactionStatus.CLAIM_CONFIRMED:
+      return [
+        createChainSwapEvent<SwapCompletedEvent>("SwapCompleted", swap, {
+          claimAmount: swap.claimAmount,
+          claimTransactionId: swap.claimTransactionId ?? null,
+        }),
+      ];
+
+    case ChainSwapTransactionStatus.LOCKUP_FAILED:
+    case ChainSwapTransactionStatus.CLAIM_FAILED:
+      // A rejected quote is recorded on an already failed lockup
+      if (from === to) {
+        return [];
+      }
+      return [
+        createChainSwapEvent<SwapFailedEvent>("SwapFailed", swap, {
+          status:
+            to === ChainSwapTransactionStatus.LOCKUP_FAILED
+              ? "LOCKUP_FAILED"
+              : "CLAIM_FAILED",
+        }),
+      ];
+
+    case ChainSwapTransactionStatus.REFUNDED:
+      return [
+        createChainSwapEvent<SwapRefundedEvent>("SwapRefunded", swap, {
+          refundTransactionId: swap.refundTransactionId ?? null,
+        }),
+      ];
+
+    default:
+      return [];
+  }
+};
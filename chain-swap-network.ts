@@ -0,0 +1,44 @@
+import * as bitcoin from "bitcoinjs-lib";
+import { networks as LiquidNetworkTypes } from "liquidjs-lib";
+import { Networks as LiquidNetworks } from "boltz-core/dist/lib/liquid";
+
+export type ChainSwapNetwork = "mainnet" | "testnet" | "regtest";
+
+/**
+ * Bitcoin and Liquid networks that belong together. Chain swaps always span both chains, so
+ * mixing e.g. Bitcoin testnet and Liquid mainnet can only end in addresses Boltz refuses
+ */
+export interface ChainSwapNetworks {
+  bitcoin: bitcoin.networks.Network;
+  liquid: LiquidNetworkTypes.Network;
+}
+
+const chainSwapNetworks: Record<ChainSwapNetwork, ChainSwapNetworks> = {
+  mainnet: {
+    bitcoin: bitcoin.networks.bitcoin,
+    liquid: LiquidNetworks.liquidMainnet,
+  },
+  testnet: {
+    bitcoin: bitcoin.networks.testnet,
+    liquid: LiquidNetworks.liquidTestnet,
+  },
+  regtest: {
+    bitcoin: bitcoin.networks.regtest,
+    liquid: LiquidNetworks.liquidRegtest,
+  },
+};
+
+export const CHAIN_SWAP_NETWORKS = Object.keys(
+  chainSwapNetworks,
+) as ChainSwapNetwork[];
+
+export const resolveChainSwapNetworks = (
+  network: ChainSwapNetwork,
+): ChainSwapNetworks => {
+  if (!CHAIN_SWAP_NETWORKS.includes(network)) {
+    throw new Error(
+      `Unknown network '${network}', expected one of ${CHAIN_SWAP_NETWORKS.join(", ")}`,
+    );
+  }
+  return chainSwapNetworks[network];
+};
@@ -0,0 +1,127 @@
+import { ChainPairDto } from "./dto/chain-pairs.dto";
+import { ChainSwapCurrency } from "./chain-swap-direction";
+
+/**
+ * Rough virtual size of a cooperative claim spending one lockup to one output.
+ * Liquid assumes discounted confidential transactions
+ */
+export const estimatedClaimVsize: Record<ChainSwapCurrency, number> = {
+  BTC: 111,
+  "L-BTC": 250,
+};
+
+/**
+ * Thrown for amounts the pair can't swap, like ones that don't cover the fees or are
+ * outside of the pair limits
+ */
+export class ChainSwapQuoteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChainSwapQuoteError";
+  }
+}
+
+export interface ChainSwapQuote {
+  pairHash: string;
+  // What the user locks up on the `from` chain
+  sendAmount: number;
+  // What arrives at the user's address on the `to` chain
+  receiveAmount: number;
+  // Amount Boltz locks up for us, our claim fee is paid out of it
+  serverLockAmount: number;
+  boltzFeePercentage: number;
+  boltzFee: number;
+  serverMinerFee: number;
+  userClaimFee: number;
+  // Our claim fee at the current fee rate of the `to` chain, only set by the service
+  estimatedClaimFee?: number;
+  limits: {
+    minimal: number;
+    maximal: number;
+  };
+}
+
+/**
+ * Percentage fee Boltz charges on the lockup, rounded up like Boltz does
+ */
+export const calculateBoltzFee = (pair: ChainPairDto, sendAmount: number) =>
+  Math.ceil((sendAmount * pair.fees.percentage) / 100);
+
+const buildQuote = (pair: ChainPairDto, sendAmount: number): ChainSwapQuote => {
+  const boltzFee = calculateBoltzFee(pair, sendAmount);
+  const serverMinerFee = pair.fees.minerFees.server;
+  const userClaimFee = pair.fees.minerFees.user.claim;
+  const serverLockAmount = sendAmount - boltzFee - serverMinerFee;
+
+  return {
+    pairHash: pair.hash,
+    sendAmount,
+    receiveAmount: serverLockAmount - userClaimFee,
+    serverLockAmount,
+    boltzFeePercentage: pair.fees.percentage,
+    boltzFee,
+    serverMinerFee,
+    userClaimFee,
+    limits: {
+      minimal: pair.limits.minimal,
+      maximal: pair.limits.maximal,
+    },
+  };
+};
+
+/**
+ * "I send X, how much arrives?"
+ */
+export const quoteSendAmount = (
+  pair: ChainPairDto,
+  sendAmount: number,
+): ChainSwapQuote => {
+  if (!Number.isInteger(sendAmount) || sendAmount <= 0) {
+    throw new ChainSwapQuoteError(`Invalid send amount: ${sendAmount}`);
+  }
+
+  const quote = buildQuote(pair, sendAmount);
+  if (quote.receiveAmount <= 0) {
+    throw new ChainSwapQuoteError(
+      `Send amount ${sendAmount} doesn't cover the swap fees`,
+    );
+  }
+  return quote;
+};
+
+/**
+ * "I want X to arrive, how much do I send?" Picks the smallest send amount that
+ * delivers at least the requested amount
+ */
+export const quoteReceiveAmount = (
+  pair: ChainPairDto,
+  receiveAmount: number,
+): ChainSwapQuote => {
+  if (!Number.isInteger(receiveAmount) || receiveAmount <= 0) {
+    throw new ChainSwapQuoteError(`Invalid receive amount: ${receiveAmount}`);
+  }
+
+  const minerFees =
+    pair.fees.minerFees.server + pair.fees.minerFees.user.claim;
+  let sendAmount = Math.ceil(
+    (receiveAmount + minerFees) / (1 - pair.fees.percentage / 100),
+  );
+
+  // The percentage fee is rounded up, which can cost a sat more than the inverse suggests
+  while (buildQuote(pair, sendAmount).receiveAmount < receiveAmount) {
+    sendAmount++;
+  }
+  // ...or the division can overshoot by one
+  while (
+    sendAmount > 1 &&
+    buildQuote(pair, sendAmount - 1).receiveAmount >= receiveAmount
+  ) {
+    sendAmount--;
+  }
+
+  return buildQuote(pair, sendAmount);
+};
+
+export const isWithinLimits = (quote: ChainSwapQuote) =>
+  quote.sendAmount >= quote.limits.minimal &&
+  quote.sendAmount <= quote.limits.maximal;
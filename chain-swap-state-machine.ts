@@ -0,0 +1,125 @@
+import { ChainSwapTransactionStatus } from "./entities/withdraw-chain-swap-transaction.entity";
+
+/**
+ * Statuses Boltz reports for chain swaps
+ */
+export type BoltzChainSwapStatus =
+  | "swap.created"
+  | "transaction.mempool"
+  | "transaction.confirmed"
+  | "transaction.server.mempool"
+  | "transaction.server.confirmed"
+  | "transaction.claim.pending"
+  | "transaction.claimed"
+  | "transaction.lockupFailed"
+  | "transaction.failed"
+  | "transaction.refunded"
+  | "swap.expired";
+
+/**
+ * Status a chain swap moves to when Boltz reports the given status
+ */
+const boltzStatusTargets: Record<
+  BoltzChainSwapStatus,
+  ChainSwapTransactionStatus
+> = {
+  "swap.created": ChainSwapTransactionStatus.LOCKUP_PENDING,
+  // User lockup seen in the mempool, still waiting for confirmations
+  "transaction.mempool": ChainSwapTransactionStatus.LOCKUP_PENDING,
+  "transaction.confirmed": ChainSwapTransactionStatus.LOCKUP_CONFIRMED,
+  "transaction.server.mempool": ChainSwapTransactionStatus.CLAIM_PENDING,
+  "transaction.server.confirmed": ChainSwapTransactionStatus.CLAIM_PENDING,
+  // Boltz waits for our signature to claim the user lockup
+  "transaction.claim.pending": ChainSwapTransactionStatus.CLAIM_PENDING,
+  // Boltz claimed our lockup; ours is confirmed once the chain reports it
+  "transaction.claimed": ChainSwapTransactionStatus.CLAIM_PENDING,
+  "transaction.lockupFailed": ChainSwapTransactionStatus.LOCKUP_FAILED,
+  // Boltz could not send its lockup
+  "transaction.failed": ChainSwapTransactionStatus.LOCKUP_FAILED,
+  // Boltz took its lockup back, so ours has to be refunded as well
+  "transaction.refunded": ChainSwapTransactionStatus.LOCKUP_FAILED,
+  "swap.expired": ChainSwapTransactionStatus.LOCKUP_FAILED,
+};
+
+const allowedTransitions: Record<
+  ChainSwapTransactionStatus,
+  ChainSwapTransactionStatus[]
+> = {
+  [ChainSwapTransactionStatus.CREATED]: [
+    ChainSwapTransactionStatus.LOCKUP_PENDING,
+    ChainSwapTransactionStatus.LOCKUP_CONFIRMED,
+    ChainSwapTransactionStatus.CLAIM_PENDING,
+    ChainSwapTransactionStatus.LOCKUP_FAILED,
+    ChainSwapTransactionStatus.REFUNDED,
+  ],
+  [ChainSwapTransactionStatus.LOCKUP_PENDING]: [
+    ChainSwapTransactionStatus.LOCKUP_PENDING,
+    ChainSwapTransactionStatus.LOCKUP_CONFIRMED,
+    ChainSwapTransactionStatus.CLAIM_PENDING,
+    ChainSwapTransactionStatus.LOCKUP_FAILED,
+    ChainSwapTransactionStatus.REFUNDED,
+  ],
+  [ChainSwapTransactionStatus.LOCKUP_CONFIRMED]: [
+    // A lockup with the wrong amount is confirmed again once a new quote is accepted
+    ChainSwapTransactionStatus.LOCKUP_CONFIRMED,
+    ChainSwapTransactionStatus.CLAIM_PENDING,
+    ChainSwapTransactionStatus.CLAIM_FAILED,
+    ChainSwapTransactionStatus.LOCKUP_FAILED,
+    ChainSwapTransactionStatus.REFUNDED,
+  ],
+  [ChainSwapTransactionStatus.CLAIM_PENDING]: [
+    ChainSwapTransactionStatus.CLAIM_PENDING,
+    ChainSwapTransactionStatus.CLAIM_CONFIRMED,
+    ChainSwapTransactionStatus.CLAIM_FAILED,
+    ChainSwapTransactionStatus.LOCKUP_FAILED,
+    ChainSwapTransactionStatus.REFUNDED,
+  ],
+  [ChainSwapTransactionStatus.CLAIM_FAILED]: [
+    ChainSwapTransactionStatus.CLAIM_PENDING,
+    ChainSwapTransactionStatus.CLAIM_CONFIRMED,
+    ChainSwapTransactionStatus.LOCKUP_FAILED,
+    ChainSwapTransactionStatus.REFUNDED,
+  ],
+  [ChainSwapTransactionStatus.LOCKUP_FAILED]: [
+    ChainSwapTransactionStatus.LOCKUP_FAILED,
+    ChainSwapTransactionStatus.REFUNDED,
+  ],
+  [ChainSwapTransactionStatus.CLAIM_CONFIRMED]: [],
+  [ChainSwapTransactionStatus.REFUNDED]: [],
+};
+
+export class IllegalChainSwapTransitionError extends Error {
+  constructor(
+    readonly swapId: string,
+    readonly from: ChainSwapTransactionStatus,
+    readonly to: ChainSwapTransactionStatus,
+  ) {
+    super(
+      `Illegal status transition for chain swap '${swapId}': ${ChainSwapTransactionStatus[from]} -> ${ChainSwapTransactionStatus[to]}`,
+    );
+    this.name = "IllegalChainSwapTransitionError";
+  }
+}
+
+/**
+ * Status the given Boltz status maps to, undefined for statuses chain swaps don't use
+ */
+export const getTargetChainSwapStatus = (
+  boltzStatus: string,
+): ChainSwapTransactionStatus | undefined =>
+  boltzStatusTargets[boltzStatus as BoltzChainSwapStatus];
+
+export const canTransitionChainSwap = (
+  from: ChainSwapTransactionStatus,
+  to: ChainSwapTransactionStatus,
+): boolean => allowedTransitions[from]?.includes(to) ?? false;
+
+export const assertChainSwapTransition = (
+  swapId: string,
+  from: ChainSwapTransactionStatus,
+  to: ChainSwapTransactionStatus,
+) => {
+  if (!canTransitionChainSwap(from, to)) {
+    throw new IllegalChainSwapTransitionError(swapId, from, to);
+  }
+};
@@ -0,0 +1,182 @@
+import {
+  BadRequestException,
+  Body,
+  ConflictException,
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  ParseEnumPipe,
+  ParseIntPipe,
+  Post,
+  Query,
+} from "@nestjs/common";
+import {
+  ChainSwapRefundError,
+  ChainToChainSwapService,
+} from "./chain-to-chain-swap.service";
+import { ChainSwapDirection } from "./chain-swap-direction";
+import { ChainSwapQuoteError } from "./chain-swap-quote";
+import { IllegalChainSwapTransitionError } from "./chain-swap-state-machine";
+import { ChainSwapTransactionStatus } from "./entities/withdraw-chain-swap-transaction.entity";
+import { DtoValidationPipe } from "./dto/dto-validation.pipe";
+import {
+  CreateChainSwapRequestDto,
+  createChainSwapRequestValidator,
+} from "./dto/create-chain-swap-request.dto";
+import {
+  ChainSwapSummaryDto,
+  toChainSwapSummary,
+} from "./dto/chain-swap-summary.dto";
+
+// Boltz only refunds cooperatively once the swap failed
+const REFUNDABLE_STATUSES = [
+  ChainSwapTransactionStatus.LOCKUP_FAILED,
+  ChainSwapTransactionStatus.CLAIM_FAILED,
+];
+
+const directionPipe = new ParseEnumPipe(ChainSwapDirection, {
+  optional: true,
+});
+const optionalIntPipe = new ParseIntPipe({ optional: true });
+
+// Amounts the pair can't swap are the client's fault, not ours
+const rejectUnswappableAmounts = async <T>(result: Promise<T>): Promise<T> => {
+  try {
+    return await result;
+  } catch (error) {
+    if (error instanceof ChainSwapQuoteError) {
+      throw new BadRequestException(error.message);
+    }
+    throw error;
+  }
+};
+
+@Controller("chain-swaps")
+export class ChainSwapController {
+  // Addresses are checked against the network of the service
+  private createRequestPipe: DtoValidationPipe<CreateChainSwapRequestDto>;
+
+  constructor(private service: ChainToChainSwapService) {
+    this.createRequestPipe = new DtoValidationPipe(
+      createChainSwapRequestValidator(service.getNetwork()),
+    );
+  }
+
+  /**
+   * Quotes a swap by either the amount the user sends or the amount that should arrive
+   */
+  @Get("quote")
+  async quote(
+    @Query("direction", directionPipe) direction?: ChainSwapDirection,
+    @Query("sendAmount", optionalIntPipe) sendAmount?: number,
+    @Query("receiveAmount", optionalIntPipe) receiveAmount?: number,
+  ) {
+    if ((sendAmount === undefined) === (receiveAmount === undefined)) {
+      throw new BadRequestException(
+        "Expected either sendAmount or receiveAmount",
+      );
+    }
+
+    return rejectUnswappableAmounts(
+      sendAmount !== undefined
+        ? this.service.quoteBySendAmount(sendAmount, direction)
+        : this.service.quoteByReceiveAmount(receiveAmount, direction),
+    );
+  }
+
+  @Post()
+  async create(
+    @Body() body: unknown,
+  ): Promise<
+    ChainSwapSummaryDto & { lockupAddress?: string; bip21?: string }
+  > {
+    const request = this.createRequestPipe.transform(body);
+    const { chainSwap, swapEntity } = await rejectUnswappableAmounts(
+      this.service.startBoltzChainSwapWithListeners(
+        request.userAddress,
+        request.amount,
+        request.refundAddress,
+        request.direction,
+      ),
+    );
+
+    return {
+      ...toChainSwapSummary(swapEntity),
+      // Where and how much the user has to send
+      lockupAddress: chainSwap.lockupDetails.lockupAddress,
+      bip21: chainSwap.lockupDetails.bip21,
+    };
+  }
+
+  @Get()
+  async list(
+    @Query("status") status?: string,
+    @Query("direction", directionPipe) direction?: ChainSwapDirection,
+    @Query("limit", optionalIntPipe) limit = 50,
+    @Query("offset", optionalIntPipe) offset = 0,
+  ): Promise<ChainSwapSummaryDto[]> {
+    const swaps = await this.service.listChainSwaps({
+      status: status === undefined ? undefined : this.parseStatus(status),
+      direction,
+      limit: Math.min(Math.max(limit, 1), 500),
+      offset: Math.max(offset, 0),
+    });
+    return swaps.map(toChainSwapSummary);
+  }
+
+  @Get(":swapId")
+  async get(@Param("swapId") swapId: string): Promise<ChainSwapSummaryDto> {
+    return toChainSwapSummary(await this.findSwap(swapId));
+  }
+
+  /**
+   * Refunds the lockup of a failed swap cooperatively with Boltz
+   */
+  @Post(":swapId/refund")
+  async refund(
+    @Param("swapId") swapId: string,
+  ): Promise<{ refundTransactionId: string }> {
+    const swap = await this.findSwap(swapId);
+    if (!REFUNDABLE_STATUSES.includes(swap.status)) {
+      throw new ConflictException(
+        `Chain swap '${swapId}' is ${ChainSwapTransactionStatus[swap.status]} and can't be refunded`,
+      );
+    }
+
+    try {
+      return { refundTransactionId: await this.service.refundChainSwap(swap) };
+    } catch (error) {
+      // Nothing to refund, Boltz refused, or the swap moved on in the meantime
+      if (
+        error instanceof ChainSwapRefundError ||
+        error instanceof IllegalChainSwapTransitionError
+      ) {
+        throw new ConflictException(error.message);
+      }
+      throw error;
+    }
+  }
+
+  private async findSwap(swapId: string) {
+    const swap = await this.service.getChainSwap(swapId);
+    if (!swap) {
+      throw new NotFoundException(`Chain swap not found: '${swapId}'`);
+    }
+    return swap;
+  }
+
+  private parseStatus(status: string): ChainSwapTransactionStatus {
+    const parsed = ChainSwapTransactionStatus[status];
+    if (typeof parsed !== "number") {
+      throw new BadRequestException(
+        `Unknown status '${status}', expected one of ${Object.keys(
+          ChainSwapTransactionStatus,
+        )
+          .filter((key) => isNaN(Number(key)))
+          .join(", ")}`,
+      );
+    }
+    return parsed;
+  }
+}
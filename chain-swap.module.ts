@@ -0,0 +1,115 @@
+import {
+  DynamicModule,
+  Module,
+  OnApplicationShutdown,
+  OnModuleInit,
+  Provider,
+} from "@nestjs/common";
+import { ModuleMetadata } from "@nestjs/common/interfaces";
+import {
+  ChainToChainSwapService,
+  ChainToChainSwapServiceOptions,
+} from "./chain-to-chain-swap.service";
+import { BoltzClient } from "./boltz-client";
+import { BoltzWebsocketClient } from "./boltz-websocket-client";
+import { ChainSwapController } from "./chain-swap.controller";
+import { ChainSwapNetwork } from "./chain-swap-network";
+
+export interface ChainSwapModuleOptions {
+  boltzApiUrl: string;
+  boltzWebSocketUrl: string;
+  network?: ChainSwapNetwork;
+  service?: ChainToChainSwapServiceOptions;
+  // Serve the REST API under /chain-swaps, on by default
+  controller?: boolean;
+}
+
+export interface ChainSwapModuleAsyncOptions
+  extends Pick<ModuleMetadata, "imports"> {
+  useFactory: (
+    ...args: any[]
+  ) => ChainSwapModuleOptions | Promise<ChainSwapModuleOptions>;
+  inject?: any[];
+  controller?: boolean;
+}
+
+export const CHAIN_SWAP_MODULE_OPTIONS = "CHAIN_SWAP_MODULE_OPTIONS";
+
+// The clients are the service's own, so both share its session recording, logger and metrics
+const providers: Provider[] = [
+  {
+    provide: ChainToChainSwapService,
+    inject: [CHAIN_SWAP_MODULE_OPTIONS],
+    useFactory: (options: ChainSwapModuleOptions) =>
+      new ChainToChainSwapService(
+        options.boltzApiUrl,
+        options.boltzWebSocketUrl,
+        options.network,
+        options.service,
+      ),
+  },
+  {
+    provide: BoltzClient,
+    inject: [ChainToChainSwapService],
+    useFactory: (service: ChainToChainSwapService) => service.getBoltzClient(),
+  },
+  {
+    provide: BoltzWebsocketClient,
+    inject: [ChainToChainSwapService],
+    useFactory: (service: ChainToChainSwapService) =>
+      service.getBoltzWebSocketClient(),
+  },
+];
+
+const exportedProviders = [ChainToChainSwapService, BoltzClient, BoltzWebsocketClient];
+
+/**
+ * Provides ChainToChainSwapService and its Boltz clients, connects to Boltz and recovers pending
+ * swaps when the application starts, and disconnects when it shuts down. Shutdown hooks only run
+ * with `app.enableShutdownHooks()`
+ */
+@Module({})
+export class ChainSwapModule implements OnModuleInit, OnApplicationShutdown {
+  constructor(private service: ChainToChainSwapService) {}
+
+  static forRoot(options: ChainSwapModuleOptions): DynamicModule {
+    return {
+      module: ChainSwapModule,
+      providers: [
+        { provide: CHAIN_SWAP_MODULE_OPTIONS, useValue: options },
+        ...providers,
+      ],
+      controllers: options.controller === false ? [] : [ChainSwapController],
+      exports: exportedProviders,
+    };
+  }
+
+  /**
+   * Options from a factory, e.g. with ConfigService injected. Whether the controller is served
+   * has to be known before the factory runs
+   */
+  static forRootAsync(options: ChainSwapModuleAsyncOptions): DynamicModule {
+    return {
+      module: ChainSwapModule,
+      imports: options.imports ?? [],
+      providers: [
+        {
+          provide: CHAIN_SWAP_MODULE_OPTIONS,
+          inject: options.inject ?? [],
+          useFactory: options.useFactory,
+        },
+        ...providers,
+      ],
+      controllers: options.controller === false ? [] : [ChainSwapController],
+      exports: exportedProviders,
+    };
+  }
+
+  async onModuleInit() {
+    await this.service.initialize();
+  }
+
+  onApplicationShutdown() {
+    this.service.disconnect();
+  }
+}
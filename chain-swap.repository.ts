@@ -0,0 +1,216 @@
+import { DataSource, DeepPartial, EntityManager, In } from "typeorm";
+import {
+  ChainSwapTransactionStatus,
+  WithdrawChainSwapTransaction,
+} from "./entities/withdraw-chain-swap-transaction.entity";
+import { ChainSwapStatusHistory } from "./entities/chain-swap-status-history.entity";
+import { SwapKeyReservation } from "./entities/swap-key-reservation.entity";
+import { ChainSwapDirection } from "./chain-swap-direction";
+import { ChainSwapEvent } from "./chain-swap-events";
+import { WebhookOutboxEntry } from "./entities/webhook-outbox-entry.entity";
+import { toWebhookOutboxEntry } from "./webhook-outbox.repository";
+
+export type ChainSwapStatusChanges = Partial<
+  Pick<
+    WithdrawChainSwapTransaction,
+    | "lockupTransactionId"
+    | "claimTransactionId"
+    | "refundTransactionId"
+    | "claimType"
+    | "claimFeeRate"
+    | "claimAmount"
+    | "quotedClaimAmount"
+    | "quoteDecision"
+    | "quoteDecisionReason"
+  >
+>;
+
+// Swaps that still need to be watched, including failed lockups that may await a refund
+// and failed claims that are retried
+export const PENDING_CHAIN_SWAP_STATUSES = [
+  ChainSwapTransactionStatus.CREATED,
+  ChainSwapTransactionStatus.LOCKUP_PENDING,
+  ChainSwapTransactionStatus.LOCKUP_CONFIRMED,
+  ChainSwapTransactionStatus.CLAIM_PENDING,
+  ChainSwapTransactionStatus.CLAIM_FAILED,
+  ChainSwapTransactionStatus.LOCKUP_FAILED,
+];
+
+export interface ChainSwapFilter {
+  status?: ChainSwapTransactionStatus;
+  direction?: ChainSwapDirection;
+  limit?: number;
+  offset?: number;
+}
+
+export class ChainSwapRepository {
+  // SQLite has a single connection, which can't start a transaction while another one is open
+  private lastTransaction: Promise<unknown> = Promise.resolve();
+
+  constructor(private dataSource: DataSource) {}
+
+  /**
+   * Stores a new swap, and the events about it for webhook delivery in the same transaction
+   */
+  async createSwap(
+    swap: DeepPartial<WithdrawChainSwapTransaction>,
+    outboxEvents: ChainSwapEvent[] = [],
+  ): Promise<WithdrawChainSwapTransaction> {
+    return this.transaction(async (manager) => {
+      const swapEntity = await manager.save(
+        manager.create(WithdrawChainSwapTransaction, {
+          ...swap,
+          status: ChainSwapTransactionStatus.CREATED,
+        }),
+      );
+      await manager.insert(ChainSwapStatusHistory, {
+        swap: { id: swapEntity.id },
+        status: swapEntity.status,
+      });
+      await this.addToOutbox(manager, outboxEvents);
+      return swapEntity;
+    });
+  }
+
+  /**
+   * Updates the status of a swap together with the fields that changed with it,
+   * and appends the new status to its history and the events about it to the webhook outbox
+   * in the same transaction
+   */
+  async updateStatus(
+    id: number,
+    status: ChainSwapTransactionStatus,
+    changes: ChainSwapStatusChanges = {},
+    outboxEvents: ChainSwapEvent[] = [],
+  ): Promise<void> {
+    await this.transaction(async (manager) => {
+      await manager.update(WithdrawChainSwapTransaction, id, {
+        ...changes,
+        status,
+      });
+      await manager.insert(ChainSwapStatusHistory, {
+        swap: { id },
+        status,
+      });
+      await this.addToOutbox(manager, outboxEvents);
+    });
+  }
+
+  /**
+   * Runs the work in a transaction once the transactions started before it are done
+   */
+  private transaction<T>(
+    work: (manager: EntityManager) => Promise<T>,
+  ): Promise<T> {
+    const result = this.lastTransaction.then(() =>
+      this.dataSource.transaction(work),
+    );
+    this.lastTransaction = result.catch(() => undefined);
+    return result;
+  }
+
+  private async addToOutbox(manager: EntityManager, events: ChainSwapEvent[]) {
+    if (events.length > 0) {
+      await manager.insert(
+        WebhookOutboxEntry,
+        events.map(toWebhookOutboxEntry),
+      );
+    }
+  }
+
+  async findBySwapId(
+    swapId: string,
+  ): Promise<WithdrawChainSwapTransaction | null> {
+    return this.dataSource
+      .getRepository(WithdrawChainSwapTransaction)
+      .findOneBy({ swapId });
+  }
+
+  /**
+   * Index after the highest one reserved or used by a swap; swaps created before indexes were
+   * reserved only have the latter
+   */
+  async getNextKeyIndex(): Promise<number> {
+    const [swaps, reservations] = await Promise.all([
+      this.dataSource
+        .getRepository(WithdrawChainSwapTransaction)
+        .createQueryBuilder("swap")
+        .select("MAX(swap.keyIndex)", "maxKeyIndex")
+        .getRawOne(),
+      this.dataSource
+        .getRepository(SwapKeyReservation)
+        .createQueryBuilder("reservation")
+        .select("MAX(reservation.keyIndex)", "maxKeyIndex")
+        .getRawOne(),
+    ]);
+
+    const maxKeyIndex = Math.max(
+      swaps?.maxKeyIndex ?? -1,
+      reservations?.maxKeyIndex ?? -1,
+    );
+    return maxKeyIndex + 1;
+  }
+
+  async reserveKeyIndex(keyIndex: number): Promise<void> {
+    // Replays reserve the indexes of their recording again
+    await this.dataSource
+      .createQueryBuilder()
+      .insert()
+      .into(SwapKeyReservation)
+      .values({ keyIndex })
+      .orIgnore()
+      .execute();
+  }
+
+  async findPending(): Promise<WithdrawChainSwapTransaction[]> {
+    return this.dataSource.getRepository(WithdrawChainSwapTransaction).find({
+      where: { status: In(PENDING_CHAIN_SWAP_STATUSES) },
+      order: { id: "ASC" },
+    });
+  }
+
+  /**
+   * Swaps matching the filter, newest first
+   */
+  async find(
+    filter: ChainSwapFilter = {},
+  ): Promise<WithdrawChainSwapTransaction[]> {
+    return this.dataSource.getRepository(WithdrawChainSwapTransaction).find({
+      where: { status: filter.status, direction: filter.direction },
+      order: { id: "DESC" },
+      take: filter.limit,
+      skip: filter.offset,
+    });
+  }
+
+  async countByStatus(): Promise<
+    {
+      direction: ChainSwapDirection;
+      status: ChainSwapTransactionStatus;
+      count: number;
+    }[]
+  > {
+    const rows = await this.dataSource
+      .getRepository(WithdrawChainSwapTransaction)
+      .createQueryBuilder("swap")
+      .select("swap.direction", "direction")
+      .addSelect("swap.status", "status")
+      .addSelect("COUNT(*)", "count")
+      .groupBy("swap.direction")
+      .addGroupBy("swap.status")
+      .getRawMany();
+
+    return rows.map((row) => ({
+      direction: row.direction,
+      status: Number(row.status),
+      count: Number(row.count),
+    }));
+  }
+
+  async getStatusHistory(id: number): Promise<ChainSwapStatusHistory[]> {
+    return this.dataSource.getRepository(ChainSwapStatusHistory).find({
+      where: { swap: { id } },
+      order: { id: "ASC" },
+    });
+  }
+}
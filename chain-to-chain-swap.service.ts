@@ -1,383 +1,1410 @@
-import {randomBytes} from "crypto";
-import {ECPairFactory, ECPairInterface} from "ecpair";
+import {randomBytes as cryptoRandomBytes} from "crypto";
 import * as bitcoin from "bitcoinjs-lib";
-import {crypto as LiquidCrypto} from "liquidjs-lib";
+import {
+    address as LiquidAddress,
+    crypto as LiquidCrypto,
+    networks as LiquidNetworkTypes,
+    Transaction as LiquidTransaction,
+    TxOutput as LiquidTxOutput,
+} from "liquidjs-lib";
 import zkpInit, {Secp256k1ZKP} from "@vulpemventures/secp256k1-zkp";
+import {ECPairFactory} from "ecpair";
 import * as ecc from "tiny-secp256k1";
+import {toXOnly} from "bitcoinjs-lib/src/psbt/bip371";
 
 import {
     detectSwap,
     Musig,
     OutputType,
+    Scripts,
     SwapTreeSerializer,
     targetFee,
     TaprootUtils,
     constructClaimTransaction,
+    constructRefundTransaction,
+    ClaimDetails,
+    TransactionOutput,
 } from "boltz-core";
-import {TaprootUtils as LiquidTaprootUtils, init} from "boltz-core/dist/lib/liquid";
+import {
+    TaprootUtils as LiquidTaprootUtils,
+    constructClaimTransaction as constructLiquidClaimTransaction,
+    constructRefundTransaction as constructLiquidRefundTransaction,
+    init,
+    LiquidClaimDetails,
+} from "boltz-core/dist/lib/liquid";
 import {BoltzClient} from "./boltz-client";
-import {BoltzWebsocketClient} from "./boltz-websocket-client";
+import {BoltzWebsocketClient, BoltzWebsocketClientOptions} from "./boltz-websocket-client";
 import {ChainSwapResponseDto} from "./dto/chain-swap-response.dto";
+import {SwapStatusDto} from "./dto/swap-status.dto";
+import {PartialSignatureDto} from "./dto/partial-signature.dto";
+import {concat, concatMap, Observable, of, Subject, tap} from "rxjs";
+import {RefundScheduler} from "./refund-scheduler";
+import {ClaimFeeBumper, ClaimFeeBumperOptions, ClaimFeeBumpStrategy, CpfpHandler} from "./claim-fee-bumper";
+import {ClaimBatcher} from "./claim-batcher";
+import {ChainSwapCurrency, ChainSwapDirection, getChainSwapCurrencies} from "./chain-swap-direction";
 import {Transaction} from "bitcoinjs-lib";
+import {Taptree} from "bitcoinjs-lib/src/types";
+import {DataSource} from "typeorm";
+import {
+    ChainSwapTransactionStatus,
+    WithdrawChainSwapTransaction,
+} from "./entities/withdraw-chain-swap-transaction.entity";
+import {ChainSwapFilter, ChainSwapRepository, ChainSwapStatusChanges} from "./chain-swap.repository";
+import {createDataSource} from "./data-source";
+import {SwapKeyProvider, SwapKeyType} from "./swap-key-provider";
+import {
+    ChainSwapQuote,
+    ChainSwapQuoteError,
+    estimatedClaimVsize,
+    isWithinLimits,
+    quoteReceiveAmount,
+    quoteSendAmount
+} from "./chain-swap-quote";
+import {
+    assertChainSwapTransition,
+    BoltzChainSwapStatus,
+    canTransitionChainSwap,
+    getTargetChainSwapStatus
+} from "./chain-swap-state-machine";
+import {BoltzSession, SessionRecorder, SessionReplayer} from "./session-recording";
+import {DetectSwapDiagnosticsInput, diagnoseDetectSwap, formatDetectSwapDiagnosis} from "./detect-swap-diagnostics";
+import {JsonLogger, Logger, LogLevel} from "./logger";
+import {ChainSwapMetrics, MetricsRegistry, MetricsServer} from "./metrics";
+import {ChainSwapEvent, createChainSwapEvent, getStatusChangeEvents, SwapCreatedEvent} from "./chain-swap-events";
+import {WebhookDispatcher, WebhookOptions} from "./webhook-dispatcher";
+import {ChainSwapNetwork, resolveChainSwapNetworks} from "./chain-swap-network";
+
+export interface ChainToChainSwapServiceOptions {
+    // Defaults to the SQLite database at DATABASE_PATH
+    dataSource?: DataSource;
+    // Timeouts and reconnect delays of the Boltz WebSocket
+    webSocket?: BoltzWebsocketClientOptions;
+    // Seed the swap keys are derived from, either as BIP39 mnemonic or BIP32 extended private key.
+    // Swaps created with a random seed can't be recovered after a restart
+    mnemonic?: string;
+    xprv?: string;
+    claimFallback?: {
+        // Claim via the script path of the claim leaf when Boltz won't co-sign
+        enabled?: boolean;
+        // How often the cooperative signature is requested again before falling back
+        cooperativeRetries?: number;
+        retryDelayMs?: number;
+    };
+    claimBatching?: {
+        // Collect claims to the same address and claim them in one transaction, off by default
+        enabled?: boolean;
+        // How long the first claim of a batch waits for others to join
+        windowMs?: number;
+        maxBatchSize?: number;
+    };
+    claimFeeBump?: ClaimFeeBumperOptions & {
+        // Bump the fee of claims that are outbid by the network while unconfirmed
+        enabled?: boolean;
+        // Replace the claim (re-signed with Boltz when cooperative) or spend its output with a child
+        strategy?: ClaimFeeBumpStrategy;
+        // Builds and broadcasts the child transaction, required for CPFP
+        cpfp?: CpfpHandler;
+    };
+    quoteRenegotiation?: {
+        // Ask Boltz for a new quote when the lockup amount is wrong instead of refunding right away
+        enabled?: boolean;
+        // New quotes are accepted unless they pay this many percent less than the original claim amount
+        maxUnderpaymentPercentage?: number;
+    };
+    // How far, in percent, the amounts Boltz returns may deviate from our own quote
+    amountTolerancePercentage?: number;
+    // Swaps whose lockup times out further than this many blocks ahead are rejected
+    maxTimeoutBlocks?: Partial<Record<ChainSwapCurrency, number>>;
+    // Records the session with Boltz, key material included, to a JSONL file or replays such a recording
+    // instead of connecting to Boltz. Replays need an empty database
+    sessionRecording?: {
+        mode: "record" | "replay";
+        path: string;
+    };
+    // Structured logger used by the service and both Boltz clients. Defaults to JSON lines on stdout
+    // at logLevel, with preimages, private keys and partial signatures redacted
+    logger?: Logger;
+    logLevel?: LogLevel;
+    metrics?: {
+        // Defaults to a registry of its own, pass one to expose the swap metrics next to others
+        registry?: MetricsRegistry;
+        // Serves the metrics at http://<host>:<port>/metrics for Prometheus when set
+        port?: number;
+        host?: string;
+    };
+    // POSTs every swap event, signed with the secret, to the URL. Events are stored in the database
+    // together with the status change they are about and retried until the webhook accepts them
+    webhook?: WebhookOptions;
+}
+
+// Roughly two weeks on either chain
+export const defaultMaxTimeoutBlocks: Record<ChainSwapCurrency, number> = {
+    "BTC": 2_016,
+    "L-BTC": 20_160,
+};
+
+// Liquid outputs carry their value, asset and nonce as (possibly confidential) buffers
+type LiquidTransactionOutput = Omit<TransactionOutput, "value"> & LiquidTxOutput;
 
-// Mock entities for testing
-interface WithdrawChainSwapTransaction {
-    id: number;
-    swapId: string;
-    userAddress: string;
-    claimPublicKey: string;
-    claimSwapTree: string;
-    claimBlindingKey: string;
-    lockupPublicKey: string;
-    lockupSwapTree: string;
-    preimage: string;
+type SpentOutput<T extends bitcoin.Transaction | LiquidTransaction> = T extends bitcoin.Transaction
+    ? TransactionOutput
+    : LiquidTransactionOutput;
+
+interface BatchedClaim {
+    chainSwapEntity: WithdrawChainSwapTransaction;
+    serverLockupTransactionHex: string;
+    userId: string;
 }
 
-// Mock enums for testing
-enum ChainSwapTransactionStatus {
-    CREATED = 0,
-    LOCKUP_PENDING = 1,
-    LOCKUP_CONFIRMED = 2,
-    CLAIM_PENDING = 3,
-    CLAIM_CONFIRMED = 4,
-    LOCKUP_FAILED = 5,
-    CLAIM_FAILED = 6,
+export const defaultAmountTolerancePercentage = 0.1;
+
+export const defaultQuoteRenegotiationOptions = {
+    enabled: true,
+    maxUnderpaymentPercentage: 1,
+};
+
+export const defaultClaimFallbackOptions = {
+    enabled: true,
+    cooperativeRetries: 3,
+    retryDelayMs: 5_000,
+};
+
+/**
+ * A cooperative refund that can't be made: there is no user lockup to refund, or Boltz refused to co-sign it
+ */
+export class ChainSwapRefundError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ChainSwapRefundError";
+    }
 }
 
 export class ChainToChainSwapService {
+    private network: ChainSwapNetwork;
     private bitcoinNetwork: bitcoin.networks.Network;
-    private keyPair: ECPairInterface;
+    private liquidNetwork: LiquidNetworkTypes.Network;
+    private keyProvider: SwapKeyProvider;
+    private nextKeyIndex: number;
     private zkp: Secp256k1ZKP;
     private boltzClient: BoltzClient;
     private boltzWebSocketClient: BoltzWebsocketClient;
+    private refundScheduler: RefundScheduler;
+    private claimFeeBumper: ClaimFeeBumper;
+    private claimBatcher?: ClaimBatcher<BatchedClaim>;
+    private claimFeeBumpOptions: {enabled: boolean; strategy: ClaimFeeBumpStrategy; cpfp?: CpfpHandler};
+    private dataSource: DataSource;
+    private chainSwapRepository: ChainSwapRepository;
+    private claimFallbackOptions: typeof defaultClaimFallbackOptions;
+    private quoteRenegotiationOptions: typeof defaultQuoteRenegotiationOptions;
+    private maxTimeoutBlocks: Record<ChainSwapCurrency, number>;
+    private amountTolerancePercentage: number;
+    private seedOptions: Pick<ChainToChainSwapServiceOptions, "mnemonic" | "xprv">;
+    private session: BoltzSession;
+    private logger: Logger;
+    private metrics: ChainSwapMetrics;
+    private metricsServer?: MetricsServer;
+    private metricsOptions: ChainToChainSwapServiceOptions["metrics"];
+    private webhookDispatcher?: WebhookDispatcher;
+    private swapEvents = new Subject<ChainSwapEvent>();
+    // Swaps whose claim is being built or broadcast right now
+    private claimingSwapIds = new Set<string>();
+    // Status updates received but not processed yet
+    private pendingUpdates = 0;
 
     constructor(
         boltzApiUrl: string,
         boltzWebSocketUrl: string,
-        network: "mainnet" | "testnet" | "regtest" = "regtest"
+        network: ChainSwapNetwork = "regtest",
+        options: ChainToChainSwapServiceOptions = {}
     ) {
-        this.boltzClient = new BoltzClient(boltzApiUrl);
-        this.boltzWebSocketClient = new BoltzWebsocketClient(boltzWebSocketUrl);
-        this.bitcoinNetwork =
-            network === "mainnet"
-                ? bitcoin.networks.bitcoin
-                : network === "testnet"
-                    ? bitcoin.networks.testnet
-                    : bitcoin.networks.regtest;
+        this.logger = options.logger ?? new JsonLogger({level: options.logLevel});
+        this.metrics = new ChainSwapMetrics(options.metrics?.registry);
+        this.metricsOptions = options.metrics;
+        const sessionLogger = this.logger.child({component: "BoltzSession"});
+        this.session =
+            options.sessionRecording?.mode === "replay"
+                ? {replayer: new SessionReplayer(options.sessionRecording.path, sessionLogger)}
+                : options.sessionRecording?.mode === "record"
+                    ? {recorder: new SessionRecorder(options.sessionRecording.path, sessionLogger)}
+                    : {};
+        this.boltzClient = new BoltzClient(
+            boltzApiUrl,
+            this.session,
+            this.logger.child({component: "BoltzClient"}),
+            this.metrics
+        );
+        this.boltzWebSocketClient = new BoltzWebsocketClient(
+            boltzWebSocketUrl,
+            options.webSocket,
+            this.session,
+            this.logger.child({component: "BoltzWebsocketClient"}),
+            this.metrics
+        );
+        this.refundScheduler = new RefundScheduler(
+            this.boltzClient,
+            this.logger.child({component: "RefundScheduler"})
+        );
+        this.claimFeeBumper = new ClaimFeeBumper(
+            this.boltzClient,
+            options.claimFeeBump,
+            this.logger.child({component: "ClaimFeeBumper"})
+        );
+        this.claimFeeBumpOptions = {
+            enabled: options.claimFeeBump?.enabled ?? true,
+            strategy: options.claimFeeBump?.strategy ?? "rbf",
+            cpfp: options.claimFeeBump?.cpfp,
+        };
+        if (this.claimFeeBumpOptions.strategy === "cpfp" && !this.claimFeeBumpOptions.cpfp) {
+            throw new Error("CPFP fee bumping needs a cpfp handler to build the child transaction");
+        }
+        if (options.claimBatching?.enabled) {
+            // A claim transaction has a single output, so only claims to the same address can share one
+            this.claimBatcher = new ClaimBatcher<BatchedClaim>(
+                ({chainSwapEntity}) =>
+                    `${getChainSwapCurrencies(chainSwapEntity.direction).to}:${chainSwapEntity.userAddress}`,
+                (claims) => this.performBatchedChainSwapClaim(claims),
+                options.claimBatching.windowMs,
+                options.claimBatching.maxBatchSize,
+                this.logger.child({component: "ClaimBatcher"})
+            );
+        }
+        this.dataSource = options.dataSource ?? createDataSource();
+        this.chainSwapRepository = new ChainSwapRepository(this.dataSource);
+        if (options.webhook) {
+            this.webhookDispatcher = new WebhookDispatcher(
+                this.dataSource,
+                options.webhook,
+                this.logger.child({component: "WebhookDispatcher"})
+            );
+        }
+        this.metrics.registry.addCollector(() => this.collectSwapCounts());
+        this.seedOptions = {mnemonic: options.mnemonic, xprv: options.xprv};
+        this.claimFallbackOptions = {
+            ...defaultClaimFallbackOptions,
+            ...options.claimFallback,
+        };
+        this.quoteRenegotiationOptions = {
+            ...defaultQuoteRenegotiationOptions,
+            ...options.quoteRenegotiation,
+        };
+        this.maxTimeoutBlocks = {...defaultMaxTimeoutBlocks, ...options.maxTimeoutBlocks};
+        this.amountTolerancePercentage = options.amountTolerancePercentage ?? defaultAmountTolerancePercentage;
+        this.network = network;
+        ({bitcoin: this.bitcoinNetwork, liquid: this.liquidNetwork} = resolveChainSwapNetworks(network));
     }
 
     async initialize() {
         this.zkp = await zkpInit();
-        this.keyPair = ECPairFactory(ecc).makeRandom();
+        if (this.session.replayer) {
+            // The swaps of the recording can only be verified and claimed with the keys they were created with
+            const {mnemonic, xprv} = this.session.replayer.getKeys();
+            this.seedOptions = {mnemonic, xprv};
+        }
+        if (this.seedOptions.xprv) {
+            this.keyProvider = SwapKeyProvider.fromXprv(this.seedOptions.xprv, this.bitcoinNetwork);
+        } else if (this.seedOptions.mnemonic) {
+            this.keyProvider = SwapKeyProvider.fromMnemonic(this.seedOptions.mnemonic, this.bitcoinNetwork);
+        } else {
+            this.logger.warn("No seed configured - using a random seed that is lost on restart");
+            this.seedOptions = {mnemonic: SwapKeyProvider.generateMnemonic()};
+            this.keyProvider = SwapKeyProvider.fromMnemonic(
+                this.seedOptions.mnemonic,
+                this.bitcoinNetwork
+            );
+        }
         init(this.zkp)
+        // Needed to parse the Taproot lockup addresses of Boltz
+        bitcoin.initEccLib(ecc);
+
+        if (!this.dataSource.isInitialized) {
+            await this.dataSource.initialize();
+        }
+        // Events left undelivered by the last run go out first
+        this.webhookDispatcher?.start();
+        this.nextKeyIndex =
+            this.session.replayer?.getKeys().nextKeyIndex ??
+            (await this.chainSwapRepository.getNextKeyIndex());
+        this.session.recorder?.record({
+            type: "keys",
+            ...this.seedOptions,
+            nextKeyIndex: this.nextKeyIndex,
+        });
 
         // Connect to WebSocket
         try {
             await this.boltzWebSocketClient.connect();
-            console.log("WebSocket client connected successfully");
+            this.logger.info("WebSocket client connected successfully");
         } catch (error) {
-            console.error("Failed to connect to WebSocket:", error);
+            this.logger.error("Failed to connect to WebSocket", {error});
             throw error;
         }
+
+        await this.recoverPendingChainSwaps();
+
+        if (this.metricsOptions?.port !== undefined) {
+            this.metricsServer = new MetricsServer(this.metrics.registry);
+            const url = await this.metricsServer.start(this.metricsOptions.port, this.metricsOptions.host);
+            this.logger.info("Serving metrics", {url});
+        }
+    }
+
+    /**
+     * Events of all swaps, emitted once they are stored
+     */
+    onSwapEvent(): Observable<ChainSwapEvent> {
+        return this.swapEvents.asObservable();
+    }
+
+    /**
+     * Metrics of all swaps in the Prometheus text format
+     */
+    getMetrics(): Promise<string> {
+        return this.metrics.registry.render();
+    }
+
+    private async collectSwapCounts() {
+        if (!this.dataSource.isInitialized) {
+            return;
+        }
+
+        // Statuses without swaps are reported as 0 instead of disappearing
+        this.metrics.swaps.reset();
+        Object.values(ChainSwapDirection).forEach((direction) =>
+            Object.keys(ChainSwapTransactionStatus)
+                .filter((status) => isNaN(Number(status)))
+                .forEach((status) => this.metrics.swaps.set({direction, status}, 0))
+        );
+        (await this.chainSwapRepository.countByStatus()).forEach(({direction, status, count}) =>
+            this.metrics.swaps.set({direction, status: ChainSwapTransactionStatus[status]}, count)
+        );
+    }
+
+    /**
+     * Status a recovered swap is processed with. A claim that failed or was cut short before it was
+     * broadcast is tried again as long as Boltz's lockup is there, which it stays while Boltz waits for
+     * its own claim and after it claimed ours. The refund scheduled on recovery remains the fallback
+     * when it fails again
+     */
+    private getRecoveryStatus(
+        chainSwapEntity: WithdrawChainSwapTransaction,
+        swapStatus: SwapStatusDto
+    ): SwapStatusDto {
+        if (
+            ![ChainSwapTransactionStatus.CLAIM_PENDING, ChainSwapTransactionStatus.CLAIM_FAILED].includes(
+                chainSwapEntity.status
+            ) ||
+            chainSwapEntity.claimTransactionId ||
+            !["transaction.server.confirmed", "transaction.claim.pending", "transaction.claimed"].includes(
+                swapStatus.status
+            )
+        ) {
+            return swapStatus;
+        }
+
+        this.logger.info("Retrying failed claim", {swapId: chainSwapEntity.swapId, status: swapStatus.status});
+        // The lockup transaction of Boltz is fetched again, status responses don't always carry it
+        return {status: "transaction.server.confirmed"};
+    }
+
+    /**
+     * Picks up the swaps that were in flight when the process stopped: subscribes them again
+     * and processes their current Boltz status, so anything that became actionable meanwhile is acted upon
+     */
+    private async recoverPendingChainSwaps() {
+        const pendingSwaps = await this.chainSwapRepository.findPending();
+        this.logger.info("Recovering pending chain swaps", {count: pendingSwaps.length});
+
+        for (const chainSwapEntity of pendingSwaps) {
+            try {
+                const swapStatus = await this.boltzClient.getSwapStatus(chainSwapEntity.swapId);
+                this.logger.info("Recovered chain swap", {
+                    swapId: chainSwapEntity.swapId,
+                    status: swapStatus.status,
+                });
+
+                this.scheduleUnilateralRefund(chainSwapEntity);
+
+                // Failed lockups were only kept around for their refund
+                if (chainSwapEntity.status === ChainSwapTransactionStatus.LOCKUP_FAILED) {
+                    continue;
+                }
+
+                this.handleChainSwapStatusUpdates(
+                    chainSwapEntity,
+                    "test-user-id",
+                    this.getRecoveryStatus(chainSwapEntity, swapStatus)
+                );
+                this.watchClaim(chainSwapEntity);
+            } catch (error) {
+                this.logger.error("Failed to recover chain swap", {
+                    swapId: chainSwapEntity.swapId,
+                    error,
+                });
+            }
+        }
     }
 
-    async getPubKeyHex(): Promise<string> {
-        return this.keyPair.publicKey.toString("hex");
+    async getPubKeyHex(swapIndex: number, keyType: SwapKeyType = SwapKeyType.CLAIM): Promise<string> {
+        return this.keyProvider.getKeyPair(keyType, swapIndex).publicKey.toString("hex");
     }
 
     async createClaimTransaction(
         preimage: Buffer,
         swapEntity: WithdrawChainSwapTransaction,
-        lockupTransactionHex: string
+        lockupTransactionHex: string,
+        cooperative = true,
+        feeRate?: number
     ) {
-        console.log("Creating claim transaction...");
-        console.log("- Preimage:", preimage.toString("hex"));
-        console.log("- Lockup transaction hex:", lockupTransactionHex);
-        console.log("- Swap entity claim public key:", swapEntity.claimPublicKey);
+        const {to} = getChainSwapCurrencies(swapEntity.direction);
+
+        this.logger.info("Creating claim transaction", {
+            swapId: swapEntity.swapId,
+            currency: to,
+            cooperative,
+        });
+        this.logger.debug("Claim transaction inputs", {
+            swapId: swapEntity.swapId,
+            lockupTransactionHex,
+            claimPublicKey: swapEntity.claimPublicKey,
+        });
+
+        const {musig, swapOutput, boltzPublicKey, utxo} = this.prepareClaimInput(
+            preimage,
+            swapEntity,
+            lockupTransactionHex,
+            cooperative
+        );
+
+        // Fee bumps pass a higher rate, everything else pays the current network fee
+        const claimFeeRate = feeRate ?? (await this.boltzClient.getNetworkFee(to)).fee;
+        const transaction = this.constructClaim(to, [utxo], swapEntity.userAddress, claimFeeRate);
+
+        return {musig, transaction, swapOutput, boltzPublicKey, feeRate: claimFeeRate};
+    }
 
+    /**
+     * Detects the server lockup output of a swap and prepares spending it in a claim
+     */
+    private prepareClaimInput(
+        preimage: Buffer,
+        swapEntity: WithdrawChainSwapTransaction,
+        lockupTransactionHex: string,
+        cooperative: boolean
+    ) {
+        const {to} = getChainSwapCurrencies(swapEntity.direction);
         const boltzPublicKey = Buffer.from(swapEntity.claimPublicKey, "hex");
+        const keyPair = this.keyProvider.getKeyPair(
+            SwapKeyType.CLAIM,
+            swapEntity.keyIndex
+        );
 
         // Create a musig signing session and tweak it with the Taptree of the swap scripts
-        const musig = new Musig(this.zkp, this.keyPair, randomBytes(32), [
+        const musig = new Musig(this.zkp, keyPair, this.randomBytes(32), [
             boltzPublicKey,
-            this.keyPair.publicKey,
+            keyPair.publicKey,
         ]);
-        const tweakedKey = TaprootUtils.tweakMusig(
-            musig,
-            SwapTreeSerializer.deserializeSwapTree(swapEntity.claimSwapTree).tree
+        const swapTree = SwapTreeSerializer.deserializeSwapTree(swapEntity.claimSwapTree);
+        const tweakedKey = this.tweakMusig(to, musig, swapTree.tree);
+
+        this.logger.debug("Tweaked claim key", {swapId: swapEntity.swapId, tweakedKey});
+
+        const lockupTx =
+            to === "L-BTC"
+                ? LiquidTransaction.fromHex(lockupTransactionHex)
+                : bitcoin.Transaction.fromHex(lockupTransactionHex);
+        const swapOutput = this.detectSwapOutput(tweakedKey, lockupTx, {
+            currency: to,
+            swapTree: JSON.parse(swapEntity.claimSwapTree),
+            otherSwapTree: JSON.parse(swapEntity.lockupSwapTree),
+            serverPublicKey: swapEntity.claimPublicKey,
+            ourPublicKey: keyPair.publicKey.toString("hex"),
+        });
+
+        // The input is either signed cooperatively via a key path spend,
+        // or spends the claim leaf via the script path with our signature and the preimage
+        const utxo: ClaimDetails | LiquidClaimDetails = {
+            ...swapOutput,
+            preimage,
+            keys: keyPair,
+            cooperative,
+            swapTree,
+            internalKey: musig.getAggregatedPublicKey(),
+            type: OutputType.Taproot,
+            // Unblinds the confidential server lockup output
+            blindingPrivateKey:
+                to === "L-BTC" ? Buffer.from(swapEntity.claimBlindingKey, "hex") : undefined,
+        };
+
+        return {musig, swapOutput, boltzPublicKey, utxo};
+    }
+
+    private constructClaim(
+        currency: ChainSwapCurrency,
+        utxos: (ClaimDetails | LiquidClaimDetails)[],
+        destinationAddress: string,
+        feeRate: number
+    ): bitcoin.Transaction | LiquidTransaction {
+        const destinationScript = this.toOutputScript(currency, destinationAddress);
+
+        if (currency === "L-BTC") {
+            return this.replayableLiquidTransaction(
+                targetFee(
+                    feeRate,
+                    (fee) =>
+                        constructLiquidClaimTransaction(
+                            // Outputs of Liquid lockups, the value is a confidential Buffer
+                            utxos as LiquidClaimDetails[],
+                            destinationScript,
+                            fee,
+                            // Signals replaceability, so the claim can be fee bumped
+                            true,
+                            this.liquidNetwork,
+                            this.getLiquidBlindingPublicKey(destinationAddress)
+                        ),
+                    true
+                )
+            );
+        }
+
+        return targetFee(feeRate, (fee) =>
+            constructClaimTransaction(
+                utxos as ClaimDetails[],
+                destinationScript,
+                fee,
+                true,
+            )
         );
+    }
+
+    async createRefundTransaction(
+        swapEntity: WithdrawChainSwapTransaction,
+        lockupTransactionHex: string,
+        cooperative = true
+    ) {
+        const {from} = getChainSwapCurrencies(swapEntity.direction);
 
-        console.log("- Tweaked key:", tweakedKey.toString("hex"));
+        this.logger.info("Creating refund transaction", {
+            swapId: swapEntity.swapId,
+            currency: from,
+            cooperative,
+        });
+        this.logger.debug("Refund transaction inputs", {
+            swapId: swapEntity.swapId,
+            lockupTransactionHex,
+            lockupPublicKey: swapEntity.lockupPublicKey,
+        });
 
-        const lockupTx = bitcoin.Transaction.fromHex(lockupTransactionHex);
-        console.log("- Lockup transaction parsed, outputs:", lockupTx.outs.length);
+        const boltzPublicKey = Buffer.from(swapEntity.lockupPublicKey, "hex");
+        const keyPair = this.keyProvider.getKeyPair(
+            SwapKeyType.REFUND,
+            swapEntity.keyIndex
+        );
 
-        const swapOutput = detectSwap(tweakedKey, lockupTx);
+        // Our key is in the refund leaf of the lockup tree, so the session is tweaked with that tree
+        const musig = new Musig(this.zkp, keyPair, this.randomBytes(32), [
+            boltzPublicKey,
+            keyPair.publicKey,
+        ]);
+        const swapTree = SwapTreeSerializer.deserializeSwapTree(swapEntity.lockupSwapTree);
+        const tweakedKey = this.tweakMusig(from, musig, swapTree.tree);
+        const diagnosticsInput = {
+            currency: from,
+            swapTree: JSON.parse(swapEntity.lockupSwapTree),
+            otherSwapTree: JSON.parse(swapEntity.claimSwapTree),
+            serverPublicKey: swapEntity.lockupPublicKey,
+            ourPublicKey: keyPair.publicKey.toString("hex"),
+        };
 
-        console.log("- detectSwap result:", swapOutput);
+        const networkFee = await this.boltzClient.getNetworkFee(from);
+        const destinationScript = this.toOutputScript(from, swapEntity.refundAddress);
+        const timeoutBlockHeight = cooperative ? 0 : swapEntity.lockupTimeoutBlockHeight;
+
+        // Create a refund transaction that is either signed cooperatively via a key path spend,
+        // or spends the refund leaf via the script path once the lockup timeout has been reached
+        if (from === "L-BTC") {
+            const lockupTx = LiquidTransaction.fromHex(lockupTransactionHex);
+            const swapOutput = this.detectSwapOutput(tweakedKey, lockupTx, diagnosticsInput);
+
+            const transaction = this.replayableLiquidTransaction(
+                targetFee(
+                    networkFee.fee,
+                    (fee) =>
+                        constructLiquidRefundTransaction(
+                            [
+                                {
+                                    ...swapOutput,
+                                    keys: keyPair,
+                                    cooperative,
+                                    swapTree,
+                                    internalKey: musig.getAggregatedPublicKey(),
+                                    type: OutputType.Taproot,
+                                    blindingPrivateKey: Buffer.from(
+                                        swapEntity.lockupBlindingKey,
+                                        "hex"
+                                    ),
+                                },
+                            ],
+                            destinationScript,
+                            timeoutBlockHeight,
+                            fee,
+                            false,
+                            this.liquidNetwork,
+                            this.getLiquidBlindingPublicKey(swapEntity.refundAddress)
+                        ),
+                    true
+                )
+            );
 
-        if (swapOutput === undefined) {
-            console.error("ERROR: No swap output found in lockup transaction");
-            console.error("- Transaction outputs:");
-            lockupTx.outs.forEach((out, index) => {
-                console.error(`  Output ${index}:`, {
-                    value: out.value,
-                    script: out.script.toString("hex"),
-                    scriptLength: out.script.length,
-                });
-            });
-            console.error("- Looking for tweaked key:", tweakedKey.toString("hex"));
-            throw new Error("No swap output found in lockup transaction");
+            return {musig, transaction, swapOutput, boltzPublicKey};
         }
 
-        // Get network fee for proper fee calculation
-        const networkFee = await this.boltzClient.getNetworkFee("BTC");
+        const lockupTx = bitcoin.Transaction.fromHex(lockupTransactionHex);
+        const swapOutput = this.detectSwapOutput(tweakedKey, lockupTx, diagnosticsInput);
 
-        // Create a claim transaction to be signed cooperatively via a key path spend
         const transaction = targetFee(networkFee.fee, (fee) =>
-            constructClaimTransaction(
+            constructRefundTransaction(
                 [
                     {
                         ...swapOutput,
-                        preimage,
-                        keys: this.keyPair,
-                        cooperative: true,
+                        keys: keyPair,
+                        cooperative,
+                        swapTree,
+                        internalKey: musig.getAggregatedPublicKey(),
                         type: OutputType.Taproot,
-                        txHash: lockupTx.getHash(),
-                    } as any,
+                    },
                 ],
-                bitcoin.address.toOutputScript(
-                    swapEntity.userAddress,
-                    this.bitcoinNetwork
-                ),
+                destinationScript,
+                timeoutBlockHeight,
                 fee,
-                false,
+                false
             )
         );
 
         return {musig, transaction, swapOutput, boltzPublicKey};
     }
 
+    /**
+     * Refunds the user lockup of a failed or expired chain swap to its refund address,
+     * signed cooperatively with Boltz via MuSig2
+     */
+    async refundChainSwap(chainSwapEntity: WithdrawChainSwapTransaction): Promise<string> {
+        this.logger.info("Refunding chain swap", {swapId: chainSwapEntity.swapId});
+
+        const lockupTransactionHex = await this.getUserLockupTransactionHex(chainSwapEntity);
+
+        if (!lockupTransactionHex) {
+            throw new ChainSwapRefundError(
+                `No user lockup transaction found for chain swap: '${chainSwapEntity.swapId}'`
+            );
+        }
+
+        const refundDetails = await this.createRefundTransaction(
+            chainSwapEntity,
+            lockupTransactionHex
+        );
+
+        let boltzPartialSignature: PartialSignatureDto;
+        try {
+            boltzPartialSignature = await this.boltzClient.refundChainSwap(
+                chainSwapEntity.swapId,
+                {
+                    index: 0,
+                    transaction: refundDetails.transaction.toHex(),
+                    pubNonce: Buffer.from(refundDetails.musig.getPublicNonce()).toString("hex"),
+                }
+            );
+        } catch (refundError) {
+            // Boltz answers requests it won't sign with a client error, e.g. for swaps that didn't fail
+            const status: number | undefined = refundError.response?.status;
+            if (status >= 400 && status < 500) {
+                throw new ChainSwapRefundError(
+                    `Boltz refused to refund chain swap '${chainSwapEntity.swapId}': ${
+                        refundError.response.data?.error ?? refundError.message
+                    }`
+                );
+            }
+            throw refundError;
+        }
+
+        refundDetails.musig.aggregateNonces([
+            [refundDetails.boltzPublicKey, Buffer.from(boltzPartialSignature.pubNonce, "hex")],
+        ]);
+        refundDetails.musig.initializeSession(
+            this.hashForWitnessV1(
+                getChainSwapCurrencies(chainSwapEntity.direction).from,
+                refundDetails.swapOutput,
+                refundDetails.transaction
+            )
+        );
+        refundDetails.musig.addPartial(
+            refundDetails.boltzPublicKey,
+            Buffer.from(boltzPartialSignature.partialSignature, "hex")
+        );
+        refundDetails.musig.signPartial();
+
+        refundDetails.transaction.ins[0].witness = [
+            refundDetails.musig.aggregatePartials(),
+        ];
+
+        const refundTransactionId = await this.boltzClient.broadcastTransaction(
+            getChainSwapCurrencies(chainSwapEntity.direction).from,
+            refundDetails.transaction.toHex()
+        );
+
+        this.logger.info("Sent refund transaction", {
+            swapId: chainSwapEntity.swapId,
+            refundTransactionId,
+        });
+
+        await this.updateChainSwapStatus(
+            chainSwapEntity,
+            ChainSwapTransactionStatus.REFUNDED,
+            {refundTransactionId}
+        );
+        this.refundScheduler.cancel(chainSwapEntity.swapId);
+
+        return refundTransactionId;
+    }
+
+    /**
+     * Refunds the user lockup via the refund leaf of the lockup swap tree without Boltz.
+     * Only valid once the lockup chain tip has reached the lockup timeout block height
+     */
+    async refundChainSwapUnilaterally(
+        chainSwapEntity: WithdrawChainSwapTransaction
+    ): Promise<string | undefined> {
+        this.logger.info("Refunding chain swap unilaterally", {swapId: chainSwapEntity.swapId});
+
+        const lockupTransactionHex = await this.getUserLockupTransactionHex(chainSwapEntity);
+
+        if (!lockupTransactionHex) {
+            this.logger.info("No user lockup transaction found - nothing to refund", {
+                swapId: chainSwapEntity.swapId,
+            });
+            return undefined;
+        }
+
+        const refundDetails = await this.createRefundTransaction(
+            chainSwapEntity,
+            lockupTransactionHex,
+            false
+        );
+
+        const refundTransactionId = await this.boltzClient.broadcastTransaction(
+            getChainSwapCurrencies(chainSwapEntity.direction).from,
+            refundDetails.transaction.toHex()
+        );
+
+        this.logger.info("Sent unilateral refund transaction", {
+            swapId: chainSwapEntity.swapId,
+            refundTransactionId,
+        });
+
+        await this.updateChainSwapStatus(
+            chainSwapEntity,
+            ChainSwapTransactionStatus.REFUNDED,
+            {refundTransactionId}
+        );
+
+        return refundTransactionId;
+    }
+
+    private async getUserLockupTransactionHex(
+        chainSwapEntity: WithdrawChainSwapTransaction
+    ): Promise<string | undefined> {
+        const swapTransactions = await this.boltzClient.getChainSwapTransactions(
+            chainSwapEntity.swapId
+        );
+        return swapTransactions.userLock?.transaction.hex;
+    }
+
     async startBoltzChainSwapWithListeners(
-        userBtcAddress: string,
-        amount: number
+        userAddress: string,
+        amount: number,
+        userRefundAddress: string,
+        direction: ChainSwapDirection = ChainSwapDirection.LIQUID_TO_BITCOIN
     ): Promise<{
         chainSwap: ChainSwapResponseDto;
-        mockSwapEntity: WithdrawChainSwapTransaction;
+        swapEntity: WithdrawChainSwapTransaction;
     }> {
-        if (!userBtcAddress || amount <= 0) {
+        this.session.recorder?.record({
+            type: "call",
+            name: "startBoltzChainSwapWithListeners",
+            args: [userAddress, amount, userRefundAddress, direction],
+        });
+
+        if (!userAddress || amount <= 0) {
             throw new Error("Invalid address or amount");
         }
 
+        const {from, to} = getChainSwapCurrencies(direction);
+
+        // Fail early if the addresses can't be spent to on the networks of the swap
+        this.toOutputScript(to, userAddress);
+        this.toOutputScript(from, userRefundAddress);
+
         // Calculate proper lockup amount including fees
-        const sendParams = await this.calculateLockupSend(amount);
+        const sendParams = await this.calculateLockupSend(amount, direction);
 
         // Generate preimage and preimage hash for the chain swap
-        const preimage = randomBytes(32);
+        const preimage = this.randomBytes(32);
         const preimageHash = LiquidCrypto.sha256(preimage);
 
-        console.log("Creating chain swap with WebSocket listeners...");
-        console.log("- Preimage:", preimage.toString("hex"));
-        console.log("- Preimage hash:", preimageHash.toString("hex"));
-        console.log("- User BTC address:", userBtcAddress);
-        console.log("- Amount:", amount);
-        console.log("- Lockup amount:", sendParams.lockupAmount);
-        console.log("- Boltz fee:", sendParams.boltzFee);
-        console.log("- Miner fees:", sendParams.minerFees);
+        // Reserved synchronously so concurrently created swaps never share keys, and stored before
+        // Boltz sees the keys so a rejected swap doesn't hand its index to the next one after a restart
+        const keyIndex = this.nextKeyIndex++;
+        await this.chainSwapRepository.reserveKeyIndex(keyIndex);
+
+        // The preimage itself is never logged, its hash identifies the swap just as well
+        this.logger.info("Creating chain swap with WebSocket listeners", {
+            preimageHash,
+            direction,
+            userAddress,
+            amount,
+            lockupAmount: sendParams.lockupAmount,
+            boltzFee: sendParams.boltzFee,
+            minerFees: sendParams.minerFees,
+            pairHash: sendParams.pairHash,
+        });
 
         const chainSwap = await this.boltzClient.createChainSwap({
-            from: "L-BTC",
-            to: "BTC",
+            from,
+            to,
             userLockAmount: sendParams.lockupAmount,
-            userAddress: userBtcAddress,
-            refundPublicKey: await this.getPubKeyHex(),
-            claimPublicKey: await this.getPubKeyHex(),
+            userAddress,
+            refundPublicKey: await this.getPubKeyHex(keyIndex, SwapKeyType.REFUND),
+            claimPublicKey: await this.getPubKeyHex(keyIndex, SwapKeyType.CLAIM),
             preimageHash: preimageHash.toString("hex"),
+            pairHash: sendParams.pairHash,
         });
 
         if (!chainSwap || !chainSwap.id) {
             throw new Error("Error creating Chain Swap");
         }
 
-        console.log("Chain swap created successfully:", chainSwap);
+        this.logger.info("Chain swap created successfully", {swapId: chainSwap.id});
+        this.logger.debug("Chain swap details", {swapId: chainSwap.id, chainSwap});
+
+        // Nothing is persisted and no funds are requested for swaps we couldn't get our coins out of
+        this.verifyChainSwapAmounts(chainSwap, sendParams);
+        await this.verifyChainSwapDetails(chainSwap, direction, keyIndex, preimageHash);
 
-        // Create mock swap entity for testing
-        const mockSwapEntity: WithdrawChainSwapTransaction = {
-            id: 1,
+        const createdEvent = createChainSwapEvent<SwapCreatedEvent>(
+            "SwapCreated",
+            {swapId: chainSwap.id, direction},
+            {
+                amount,
+                lockupAmount: chainSwap.lockupDetails.amount,
+                claimAmount: chainSwap.claimDetails.amount,
+                lockupAddress: chainSwap.lockupDetails.lockupAddress,
+            }
+        );
+        const swapEntity = await this.chainSwapRepository.createSwap({
             swapId: chainSwap.id,
-            userAddress: userBtcAddress,
+            direction,
+            amount,
+            lockupAmount: chainSwap.lockupDetails.amount,
+            claimAmount: chainSwap.claimDetails.amount,
+            keyIndex,
+            userAddress,
             claimPublicKey: chainSwap.claimDetails.serverPublicKey,
             claimSwapTree: JSON.stringify(chainSwap.claimDetails.swapTree),
             claimBlindingKey: chainSwap.claimDetails.blindingKey,
             lockupPublicKey: chainSwap.lockupDetails.serverPublicKey,
             lockupSwapTree: JSON.stringify(chainSwap.lockupDetails.swapTree),
+            lockupBlindingKey: chainSwap.lockupDetails.blindingKey,
+            lockupTimeoutBlockHeight: chainSwap.lockupDetails.timeoutBlockHeight,
+            refundAddress: userRefundAddress,
             preimage: preimage.toString("hex"),
-        };
+            preimageHash: preimageHash.toString("hex"),
+        }, this.webhookDispatcher ? [createdEvent] : []);
+        this.publishSwapEvents([createdEvent]);
+
+        this.metrics.swapsCreated.inc({direction});
+        this.metrics.recordFees(direction, sendParams);
 
         // Subscribe to swap updates
-        this.boltzWebSocketClient.subscribe("swap.update", [chainSwap.id]);
-        this.handleChainSwapStatusUpdates(mockSwapEntity, "test-user-id");
+        this.handleChainSwapStatusUpdates(swapEntity, "test-user-id");
 
-        return {chainSwap, mockSwapEntity};
+        this.scheduleUnilateralRefund(swapEntity);
+
+        return {chainSwap, swapEntity};
     }
 
-    private handleChainSwapStatusUpdates(
-        chainSwapEntity: WithdrawChainSwapTransaction,
-        userId: string
+    /**
+     * Compares the amounts Boltz wants us to lock up and will lock up for us with our own quote
+     */
+    private verifyChainSwapAmounts(
+        chainSwap: ChainSwapResponseDto,
+        sendParams: Awaited<ReturnType<ChainToChainSwapService["calculateLockupSend"]>>
+    ) {
+        const check = (side: string, actual: number, expected: number) => {
+            const deviation = Math.abs(actual - expected);
+            if (deviation > expected * this.amountTolerancePercentage / 100) {
+                throw new Error(
+                    `Rejecting chain swap: '${chainSwap.id}' - ${side} amount ${actual} deviates from the quoted ${expected} by more than ${this.amountTolerancePercentage}%`
+                );
+            }
+        };
+
+        check("lockup", chainSwap.lockupDetails.amount, sendParams.lockupAmount);
+        check("claim", chainSwap.claimDetails.amount, sendParams.claimAmount);
+    }
+
+    /**
+     * Checks that the swap Boltz created is the one we asked for: both swap trees have to commit to our
+     * preimage hash and keys with sane timeouts, and the lockup addresses have to be the Taproot outputs
+     * of the aggregated MuSig2 keys tweaked with these trees
+     */
+    private async verifyChainSwapDetails(
+        chainSwap: ChainSwapResponseDto,
+        direction: ChainSwapDirection,
+        keyIndex: number,
+        preimageHash: Buffer
     ) {
-        console.log(
-            `Setting up WebSocket listener for swap: ${chainSwapEntity.swapId}`
+        const {from, to} = getChainSwapCurrencies(direction);
+        const heights = await this.boltzClient.getChainHeights();
+
+        // We refund our lockup on the "from" chain and claim Boltz's lockup on the "to" chain
+        this.verifyChainSwapData(
+            chainSwap.id,
+            "lockup",
+            from,
+            chainSwap.lockupDetails,
+            this.keyProvider.getKeyPair(SwapKeyType.REFUND, keyIndex),
+            SwapKeyType.REFUND,
+            preimageHash,
+            heights[from]
+        );
+        this.verifyChainSwapData(
+            chainSwap.id,
+            "claim",
+            to,
+            chainSwap.claimDetails,
+            this.keyProvider.getKeyPair(SwapKeyType.CLAIM, keyIndex),
+            SwapKeyType.CLAIM,
+            preimageHash,
+            heights[to]
         );
 
-        this.boltzWebSocketClient.onMessage().subscribe(async (msg) => {
-            console.log("\n=== WebSocket Message Received ===");
-            console.log("Raw message:", JSON.stringify(msg, null, 2));
+        this.logger.info("Verified swap trees and lockup addresses", {swapId: chainSwap.id});
+    }
 
-            if (msg.event !== "update") {
-                console.log("Ignoring non-update event:", msg.event);
-                return;
+    private verifyChainSwapData(
+        swapId: string,
+        side: "lockup" | "claim",
+        currency: ChainSwapCurrency,
+        details: ChainSwapResponseDto["lockupDetails"],
+        keyPair: ReturnType<SwapKeyProvider["getKeyPair"]>,
+        ourKeyType: SwapKeyType,
+        preimageHash: Buffer,
+        currentHeight: number | undefined
+    ) {
+        const fail = (reason: string) => {
+            throw new Error(`Rejecting chain swap: '${swapId}' - ${side} details: ${reason}`);
+        };
+
+        if (!details.serverPublicKey) fail("server public key missing");
+        if (!details.lockupAddress) fail("lockup address missing");
+
+        const serverPublicKey = Buffer.from(details.serverPublicKey, "hex");
+        const swapTree = SwapTreeSerializer.deserializeSwapTree(details.swapTree);
+
+        // Whoever claims has to reveal our preimage, whoever refunds has to wait for the timeout
+        const [claimPublicKey, refundPublicKey] =
+            ourKeyType === SwapKeyType.CLAIM
+                ? [keyPair.publicKey, serverPublicKey]
+                : [serverPublicKey, keyPair.publicKey];
+
+        const claimLeaf = bitcoin.script.decompile(swapTree.claimLeaf.output) ?? [];
+        const containsBuffer = (script: typeof claimLeaf, expected: Buffer) =>
+            script.some((chunk) => Buffer.isBuffer(chunk) && chunk.equals(expected));
+
+        if (!containsBuffer(claimLeaf, bitcoin.crypto.ripemd160(preimageHash))) {
+            fail("claim leaf doesn't commit to our preimage hash");
+        }
+        if (!containsBuffer(claimLeaf, toXOnly(claimPublicKey))) {
+            fail("claim leaf isn't locked to the expected claim key");
+        }
+
+        const [refundKey, checkSigVerify, timeout, checkLockTimeVerify] =
+            bitcoin.script.decompile(swapTree.refundLeaf.output) ?? [];
+        if (
+            !Buffer.isBuffer(refundKey) ||
+            !refundKey.equals(toXOnly(refundPublicKey)) ||
+            checkSigVerify !== bitcoin.opcodes.OP_CHECKSIGVERIFY ||
+            checkLockTimeVerify !== bitcoin.opcodes.OP_CHECKLOCKTIMEVERIFY
+        ) {
+            fail("refund leaf isn't locked to the expected refund key");
+        }
+
+        const timeoutBlockHeight = Buffer.isBuffer(timeout)
+            ? bitcoin.script.number.decode(timeout, 5)
+            : undefined;
+        if (timeoutBlockHeight !== details.timeoutBlockHeight) {
+            fail(`refund leaf timeout ${timeoutBlockHeight} doesn't match ${details.timeoutBlockHeight}`);
+        }
+        if (currentHeight !== undefined) {
+            if (timeoutBlockHeight <= currentHeight) {
+                fail(`timeout ${timeoutBlockHeight} already reached at ${currency} height ${currentHeight}`);
+            }
+            if (timeoutBlockHeight - currentHeight > this.maxTimeoutBlocks[currency]) {
+                fail(`timeout ${timeoutBlockHeight} is more than ${this.maxTimeoutBlocks[currency]} blocks away`);
             }
+        }
 
-            if (
-                !msg.args ||
-                !msg.args[0] ||
-                msg.args[0].id !== chainSwapEntity.swapId
-            ) {
-                console.log(
-                    "Message not for our swap ID. Expected:",
-                    chainSwapEntity.swapId,
-                    "Got:",
-                    msg.args?.[0]?.id
-                );
-                return;
+        // The key path has to be the aggregate of Boltz's key and ours, tweaked with exactly this tree
+        const musig = new Musig(this.zkp, keyPair, this.randomBytes(32), [
+            serverPublicKey,
+            keyPair.publicKey,
+        ]);
+        const expectedOutputScript = Scripts.p2trOutput(this.tweakMusig(currency, musig, swapTree.tree));
+
+        let lockupOutputScript: Buffer;
+        try {
+            lockupOutputScript = this.toOutputScript(currency, details.lockupAddress);
+        } catch (error) {
+            fail(`lockup address isn't a ${currency} address: ${error.message}`);
+        }
+        if (!lockupOutputScript.equals(expectedOutputScript)) {
+            fail("lockup address doesn't match the swap tree and keys");
+        }
+
+        if (currency === "L-BTC") {
+            if (!details.blindingKey) fail("blinding key missing");
+
+            const blindingPublicKey = this.getLiquidBlindingPublicKey(details.lockupAddress);
+            const expectedBlindingPublicKey = ECPairFactory(ecc).fromPrivateKey(
+                Buffer.from(details.blindingKey, "hex")
+            ).publicKey;
+            if (!blindingPublicKey || !blindingPublicKey.equals(expectedBlindingPublicKey)) {
+                fail("lockup address isn't blinded with the blinding key");
             }
+        }
+    }
 
-            console.log(`Processing update for swap: ${chainSwapEntity.swapId}`);
-            console.log("Status:", msg.args[0].status);
+    private scheduleUnilateralRefund(chainSwapEntity: WithdrawChainSwapTransaction) {
+        // Recover the lockup without Boltz should the swap never complete
+        this.refundScheduler.schedule(
+            chainSwapEntity.swapId,
+            getChainSwapCurrencies(chainSwapEntity.direction).from,
+            chainSwapEntity.lockupTimeoutBlockHeight,
+            async () => {
+                await this.refundChainSwapUnilaterally(chainSwapEntity);
+            }
+        );
+    }
 
-            try {
-                switch (msg.args[0].status) {
-                    case "swap.created": {
-                        console.log(
-                            `✅ Swap created for chain swap: '${chainSwapEntity.swapId}' - Waiting for coins to be locked`
-                        );
-                        await this.updateChainSwapStatus(
-                            chainSwapEntity.id,
-                            ChainSwapTransactionStatus.LOCKUP_PENDING
-                        );
-                        break;
+    private handleChainSwapStatusUpdates(
+        chainSwapEntity: WithdrawChainSwapTransaction,
+        userId: string,
+        currentStatus?: SwapStatusDto
+    ) {
+        this.logger.info("Setting up WebSocket listener", {swapId: chainSwapEntity.swapId});
+
+        const swapUpdates = this.boltzWebSocketClient.subscribeSwapUpdates(chainSwapEntity.swapId);
+
+        // Updates of a swap are processed one after another, so a slow claim can't race the next status
+        (currentStatus ? concat(of(currentStatus), swapUpdates) : swapUpdates)
+            .pipe(
+                tap(() => this.pendingUpdates++),
+                concatMap(async (update) => {
+                    try {
+                        await this.processChainSwapStatusUpdate(chainSwapEntity, update, userId);
+                    } finally {
+                        this.pendingUpdates--;
                     }
+                })
+            )
+            .subscribe();
+    }
 
-                    case "transaction.lockup": {
-                        console.log(
-                            `✅ Lockup transaction found for chain swap: '${chainSwapEntity.swapId}'`
-                        );
-                        console.log("Transaction details:", msg.args[0].transaction);
-                        await this.updateChainSwapStatus(
-                            chainSwapEntity.id,
-                            ChainSwapTransactionStatus.LOCKUP_CONFIRMED,
-                            msg.args[0].transaction?.id
-                        );
-                        break;
-                    }
+    private async processChainSwapStatusUpdate(
+        chainSwapEntity: WithdrawChainSwapTransaction,
+        update: SwapStatusDto,
+        userId: string
+    ) {
+        const logger = this.logger.child({swapId: chainSwapEntity.swapId, status: update.status});
+        logger.info("Processing swap update");
 
-                    case "transaction.server.mempool": {
-                        await this.updateChainSwapStatus(
-                            chainSwapEntity.id,
-                            ChainSwapTransactionStatus.CLAIM_PENDING,
-                            msg.args[0].transaction?.id
-                        );
-                        break;
-                    }
+        const targetStatus = getTargetChainSwapStatus(update.status);
+        if (targetStatus === undefined) {
+            logger.warn("Chain swap status not handled");
+            return;
+        }
 
-                    case "transaction.server.confirmed": {
-                        await this.broadcastCoSignedClaimTransaction(
-                            chainSwapEntity,
-                            msg.args[0].transaction?.hex,
-                            userId
-                        );
-                        break;
-                    }
+        if (!canTransitionChainSwap(chainSwapEntity.status, targetStatus)) {
+            if (chainSwapEntity.status === targetStatus) {
+                logger.info("Chain swap is already in the target status - ignoring update", {
+                    swapStatus: ChainSwapTransactionStatus[targetStatus],
+                });
+            } else {
+                logger.warn("Ignoring update - invalid status transition", {
+                    swapStatus: ChainSwapTransactionStatus[chainSwapEntity.status],
+                    targetStatus: ChainSwapTransactionStatus[targetStatus],
+                });
+            }
+            return;
+        }
+
+        try {
+            switch (update.status as BoltzChainSwapStatus) {
+                case "swap.created": {
+                    logger.info("Swap created - waiting for coins to be locked");
+                    await this.updateChainSwapStatus(
+                        chainSwapEntity,
+                        ChainSwapTransactionStatus.LOCKUP_PENDING
+                    );
+                    break;
+                }
+
+                case "transaction.mempool": {
+                    logger.info("Lockup transaction found in mempool", {
+                        lockupTransactionId: update.transaction?.id,
+                    });
+                    await this.updateChainSwapStatus(
+                        chainSwapEntity,
+                        ChainSwapTransactionStatus.LOCKUP_PENDING,
+                        {lockupTransactionId: update.transaction?.id}
+                    );
+                    break;
+                }
+
+                case "transaction.confirmed": {
+                    logger.info("Lockup transaction confirmed", {
+                        lockupTransactionId: update.transaction?.id,
+                    });
+                    logger.debug("Lockup transaction details", {transaction: update.transaction});
+                    await this.updateChainSwapStatus(
+                        chainSwapEntity,
+                        ChainSwapTransactionStatus.LOCKUP_CONFIRMED,
+                        {lockupTransactionId: update.transaction?.id ?? chainSwapEntity.lockupTransactionId}
+                    );
+                    break;
+                }
+
+                case "transaction.server.mempool":
+                case "transaction.claim.pending": {
+                    await this.updateChainSwapStatus(
+                        chainSwapEntity,
+                        ChainSwapTransactionStatus.CLAIM_PENDING
+                    );
+                    break;
+                }
 
-                    case "transaction.claimed": {
-                        console.log(
-                            `✅ Swap successfully claimed by Boltz for chain swap: '${chainSwapEntity.swapId}'`
-                        );
-                        await this.updateChainSwapStatus(
-                            chainSwapEntity.id,
-                            ChainSwapTransactionStatus.CLAIM_CONFIRMED
-                        );
+                case "transaction.server.confirmed": {
+                    if (chainSwapEntity.claimTransactionId) {
+                        logger.info("Claim was already broadcast", {
+                            claimTransactionId: chainSwapEntity.claimTransactionId,
+                        });
                         break;
                     }
-
-                    case "transaction.lockupFailed": {
-                        console.log(
-                            `❌ Lockup failed for chain swap: '${chainSwapEntity.swapId}'`
-                        );
-                        await this.updateChainSwapStatus(
-                            chainSwapEntity.id,
-                            ChainSwapTransactionStatus.LOCKUP_FAILED
-                        );
-                        this.boltzWebSocketClient.unsubscribe("swap.update", [
-                            chainSwapEntity.swapId,
-                        ]);
+                    if (this.claimingSwapIds.has(chainSwapEntity.swapId)) {
+                        logger.info("Claim is already in progress");
                         break;
                     }
 
-                    case "transaction.claimFailed": {
-                        console.log(
-                            `❌ Claim failed for chain swap: '${chainSwapEntity.swapId}'`
-                        );
-                        await this.updateChainSwapStatus(
-                            chainSwapEntity.id,
-                            ChainSwapTransactionStatus.CLAIM_FAILED
-                        );
-                        this.boltzWebSocketClient.unsubscribe("swap.update", [
-                            chainSwapEntity.swapId,
-                        ]);
-                        break;
+                    try {
+                        await this.claimChainSwap(chainSwapEntity, update, userId);
+                    } catch (claimError) {
+                        await this.markClaimFailed(chainSwapEntity);
+                        throw claimError;
                     }
+                    break;
+                }
 
-                    case "swap.expired": {
-                        console.log(
-                            `❌ Swap expired for chain swap: '${chainSwapEntity.swapId}'`
-                        );
-                        await this.updateChainSwapStatus(
-                            chainSwapEntity.id,
-                            ChainSwapTransactionStatus.LOCKUP_FAILED
-                        );
-                        this.boltzWebSocketClient.unsubscribe("swap.update", [
-                            chainSwapEntity.swapId,
-                        ]);
+                // Boltz claimed our lockup, which says nothing about our own claim: that one is
+                // confirmed by the claim watcher once the chain reports it
+                case "transaction.claimed": {
+                    logger.info("Lockup claimed by Boltz", {
+                        claimTransactionId: chainSwapEntity.claimTransactionId,
+                    });
+                    this.refundScheduler.cancel(chainSwapEntity.swapId);
+                    break;
+                }
+
+                case "transaction.lockupFailed": {
+                    // A lockup with the wrong amount can still go through at a new quote
+                    if (await this.renegotiateChainSwapQuote(chainSwapEntity, update)) {
                         break;
                     }
+                    await this.failChainSwap(chainSwapEntity, update);
+                    break;
+                }
 
-                    default:
-                        console.log(
-                            `⚠️ Chain swap status '${msg.args[0].status}' not handled for swap: '${chainSwapEntity.swapId}'`
-                        );
-                        break;
+                case "transaction.failed":
+                case "transaction.refunded":
+                case "swap.expired": {
+                    await this.failChainSwap(chainSwapEntity, update);
+                    break;
                 }
-            } catch (e) {
-                console.error("❌ Error processing WebSocket message:", e);
-                await this.updateChainSwapStatus(
-                    chainSwapEntity.id,
-                    ChainSwapTransactionStatus.CLAIM_FAILED
-                );
-                this.boltzWebSocketClient.unsubscribe("swap.update", [
-                    chainSwapEntity.swapId,
-                ]);
+
+                default:
+                    logger.warn("Chain swap status not handled");
+                    break;
             }
-        });
+        } catch (e) {
+            // The swap stays subscribed, so a later update like an expiry is still acted on
+            logger.error("Error processing swap update", {error: e});
+        }
     }
 
-    private async broadcastCoSignedClaimTransaction(
+    /**
+     * Claims the lockup of Boltz, in a batch with other swaps if batching is enabled
+     */
+    private async claimChainSwap(
         chainSwapEntity: WithdrawChainSwapTransaction,
-        transactionHex: string,
-        userId: string,
+        update: SwapStatusDto,
+        userId: string
     ) {
-        console.log(`Creating claim transaction for chain swap: '${chainSwapEntity.swapId}'`);
+        // Status responses fetched after a restart don't always carry the hex
+        const serverLockupTransactionHex =
+            update.transaction?.hex ??
+            (await this.boltzClient.getChainSwapTransactions(chainSwapEntity.swapId))
+                .serverLock?.transaction.hex;
+
+        if (this.claimBatcher) {
+            this.claimingSwapIds.add(chainSwapEntity.swapId);
+            try {
+                await this.claimBatcher.add({chainSwapEntity, serverLockupTransactionHex, userId});
+            } finally {
+                this.claimingSwapIds.delete(chainSwapEntity.swapId);
+            }
+            return;
+        }
+
+        await this.broadcastCoSignedClaimTransaction(
+            chainSwapEntity,
+            serverLockupTransactionHex,
+            userId
+        );
+    }
+
+    /**
+     * Records a claim that didn't go out, so it is retried after a restart. Never throws, the error
+     * of the claim itself is what gets reported
+     */
+    private async markClaimFailed(chainSwapEntity: WithdrawChainSwapTransaction) {
+        if (!canTransitionChainSwap(chainSwapEntity.status, ChainSwapTransactionStatus.CLAIM_FAILED)) {
+            return;
+        }
+
+        try {
+            await this.updateChainSwapStatus(
+                chainSwapEntity,
+                ChainSwapTransactionStatus.CLAIM_FAILED
+            );
+        } catch (error) {
+            this.logger.error("Failed to record the failed claim", {
+                swapId: chainSwapEntity.swapId,
+                error,
+            });
+        }
+    }
+
+    private async failChainSwap(
+        chainSwapEntity: WithdrawChainSwapTransaction,
+        update: SwapStatusDto
+    ) {
+        this.logger.warn("Chain swap failed", {
+            swapId: chainSwapEntity.swapId,
+            status: update.status,
+            failureReason: update.failureReason,
+        });
+        if (chainSwapEntity.status !== ChainSwapTransactionStatus.LOCKUP_FAILED) {
+            await this.updateChainSwapStatus(
+                chainSwapEntity,
+                ChainSwapTransactionStatus.LOCKUP_FAILED
+            );
+        }
+        await this.tryRefundChainSwap(chainSwapEntity);
+        this.boltzWebSocketClient.unsubscribeSwapUpdates(chainSwapEntity.swapId);
+    }
+
+    /**
+     * Fetches the quote Boltz offers for a lockup with the wrong amount and accepts it if our policy allows.
+     * Returns whether the swap continues at the new quote; the decision is recorded on the swap either way
+     */
+    private async renegotiateChainSwapQuote(
+        chainSwapEntity: WithdrawChainSwapTransaction,
+        update: SwapStatusDto
+    ): Promise<boolean> {
+        if (!this.quoteRenegotiationOptions.enabled) {
+            return false;
+        }
+
+        this.logger.info("Lockup failed - requesting a new quote", {
+            swapId: chainSwapEntity.swapId,
+            status: update.status,
+            failureReason: update.failureReason,
+        });
+
+        let quotedClaimAmount: number;
+        try {
+            quotedClaimAmount = (await this.boltzClient.getChainSwapQuote(chainSwapEntity.swapId)).amount;
+        } catch (quoteError) {
+            this.logger.warn("Boltz has no new quote", {swapId: chainSwapEntity.swapId, error: quoteError});
+            // Boltz explains in the response body why there is no quote
+            await this.updateChainSwapStatus(chainSwapEntity, ChainSwapTransactionStatus.LOCKUP_FAILED, {
+                quoteDecision: "unavailable",
+                quoteDecisionReason: quoteError.response?.data?.error ?? quoteError.message,
+            });
+            return false;
+        }
+
+        const minimalClaimAmount = Math.floor(
+            chainSwapEntity.claimAmount * (1 - this.quoteRenegotiationOptions.maxUnderpaymentPercentage / 100)
+        );
+        if (quotedClaimAmount < minimalClaimAmount) {
+            this.logger.warn("Rejecting quote below the minimal claim amount", {
+                swapId: chainSwapEntity.swapId,
+                quotedClaimAmount,
+                minimalClaimAmount,
+            });
+            await this.updateChainSwapStatus(chainSwapEntity, ChainSwapTransactionStatus.LOCKUP_FAILED, {
+                quotedClaimAmount,
+                quoteDecision: "rejected",
+            });
+            return false;
+        }
+
+        try {
+            await this.boltzClient.acceptChainSwapQuote(chainSwapEntity.swapId, quotedClaimAmount);
+        } catch (acceptError) {
+            this.logger.error("Failed to accept new quote", {
+                swapId: chainSwapEntity.swapId,
+                quotedClaimAmount,
+                error: acceptError,
+            });
+            await this.updateChainSwapStatus(chainSwapEntity, ChainSwapTransactionStatus.LOCKUP_FAILED, {
+                quotedClaimAmount,
+                quoteDecision: "acceptFailed",
+            });
+            return false;
+        }
+
+        this.logger.info("Accepted new quote", {
+            swapId: chainSwapEntity.swapId,
+            quotedClaimAmount,
+            claimAmount: chainSwapEntity.claimAmount,
+        });
+        await this.updateChainSwapStatus(chainSwapEntity, ChainSwapTransactionStatus.LOCKUP_CONFIRMED, {
+            claimAmount: quotedClaimAmount,
+            quotedClaimAmount,
+            quoteDecision: "accepted",
+        });
+        return true;
+    }
+
+    private async broadcastCoSignedClaimTransaction(
+        chainSwapEntity: WithdrawChainSwapTransaction,
+        transactionHex: string,
+        userId: string,
+    ) {
+        const logger = this.logger.child({swapId: chainSwapEntity.swapId});
+        logger.info("Claiming chain swap");
         const preimageBuffer = Buffer.from(chainSwapEntity.preimage, "hex");
+        this.claimingSwapIds.add(chainSwapEntity.swapId);
 
         try {
             const claimTransactionDetails = await this.createClaimTransaction(
@@ -386,14 +1413,31 @@ export class ChainToChainSwapService {
                 transactionHex,
             );
 
-            console.log("✅ Claim transaction created successfully");
+            logger.info("Claim transaction created successfully");
 
-            const boltzPartialSignature = await this.getBoltzPartialSignature(
-                preimageBuffer,
-                chainSwapEntity,
-                Buffer.from(claimTransactionDetails.musig.getPublicNonce()),
-                claimTransactionDetails.transaction,
-            );
+            let boltzPartialSignature: { pubNonce: Buffer; partialSignature: Buffer };
+            try {
+                boltzPartialSignature = await this.getBoltzPartialSignatureWithRetries(
+                    preimageBuffer,
+                    chainSwapEntity,
+                    Buffer.from(claimTransactionDetails.musig.getPublicNonce()),
+                    claimTransactionDetails.transaction,
+                );
+            } catch (signatureError) {
+                if (!this.claimFallbackOptions.enabled) {
+                    throw signatureError;
+                }
+
+                logger.warn("Boltz did not co-sign the claim - falling back to script path claim", {
+                    error: signatureError,
+                });
+                await this.performScriptPathClaim(
+                    preimageBuffer,
+                    chainSwapEntity,
+                    transactionHex,
+                );
+                return;
+            }
 
             await this.performChainSwapClaim(
                 claimTransactionDetails,
@@ -401,31 +1445,201 @@ export class ChainToChainSwapService {
                 boltzPartialSignature,
             );
 
-            console.log("✅ Claim transaction submitted");
+            logger.info("Claim transaction submitted");
         } catch (claimError) {
-            console.error("❌ Error during claim process:", claimError);
-            await this.updateChainSwapStatus(
-                chainSwapEntity.id,
-                ChainSwapTransactionStatus.CLAIM_FAILED
-            );
+            logger.error("Error during claim process", {error: claimError});
+            await this.markClaimFailed(chainSwapEntity);
             throw claimError;
+        } finally {
+            this.claimingSwapIds.delete(chainSwapEntity.swapId);
+        }
+    }
+
+    /**
+     * Claims all swaps of a batch in one transaction. Every input is signed in its own MuSig session
+     * with Boltz; should Boltz not co-sign any of them, the swaps are claimed one by one instead
+     */
+    private async performBatchedChainSwapClaim(claims: BatchedClaim[]) {
+        if (claims.length === 1) {
+            const [{chainSwapEntity, serverLockupTransactionHex, userId}] = claims;
+            await this.broadcastCoSignedClaimTransaction(chainSwapEntity, serverLockupTransactionHex, userId);
+            return;
+        }
+
+        const {to} = getChainSwapCurrencies(claims[0].chainSwapEntity.direction);
+        const swapIds = claims.map(({chainSwapEntity}) => chainSwapEntity.swapId);
+        this.logger.info("Creating batched claim transaction", {currency: to, swapIds});
+
+        try {
+            const inputs = claims.map(({chainSwapEntity, serverLockupTransactionHex}) =>
+                this.prepareClaimInput(
+                    Buffer.from(chainSwapEntity.preimage, "hex"),
+                    chainSwapEntity,
+                    serverLockupTransactionHex,
+                    true
+                )
+            );
+            const feeRate = (await this.boltzClient.getNetworkFee(to)).fee;
+            const transaction = this.constructClaim(
+                to,
+                inputs.map(({utxo}) => utxo),
+                claims[0].chainSwapEntity.userAddress,
+                feeRate
+            );
+            const spentOutputs = inputs.map(({swapOutput}) => swapOutput);
+
+            // Collect all of Boltz's signatures first, the batch is only broadcast if every input can be signed
+            const boltzPartialSignatures = [];
+            for (let index = 0; index < claims.length; index++) {
+                boltzPartialSignatures.push(
+                    await this.getBoltzPartialSignatureWithRetries(
+                        Buffer.from(claims[index].chainSwapEntity.preimage, "hex"),
+                        claims[index].chainSwapEntity,
+                        Buffer.from(inputs[index].musig.getPublicNonce()),
+                        transaction,
+                        index
+                    )
+                );
+            }
+
+            inputs.forEach(({musig, swapOutput, boltzPublicKey}, index) => {
+                musig.aggregateNonces([[boltzPublicKey, boltzPartialSignatures[index].pubNonce]]);
+                musig.initializeSession(
+                    this.hashForWitnessV1(to, swapOutput, transaction, spentOutputs, index)
+                );
+                musig.addPartial(boltzPublicKey, boltzPartialSignatures[index].partialSignature);
+                musig.signPartial();
+                transaction.ins[index].witness = [musig.aggregatePartials()];
+            });
+
+            const claimTransactionId = await this.boltzClient.broadcastTransaction(to, transaction.toHex());
+
+            for (const {chainSwapEntity} of claims) {
+                await this.updateChainSwapStatus(
+                    chainSwapEntity,
+                    ChainSwapTransactionStatus.CLAIM_PENDING,
+                    {claimTransactionId, claimType: "batched", claimFeeRate: feeRate}
+                );
+                this.watchClaim(chainSwapEntity);
+            }
+
+            this.logger.info("Sent batched claim transaction", {swapIds, claimTransactionId});
+        } catch (batchError) {
+            this.logger.warn("Batched claim failed - claiming the swaps one by one", {
+                swapIds,
+                error: batchError,
+            });
+
+            for (const {chainSwapEntity, serverLockupTransactionHex, userId} of claims) {
+                try {
+                    await this.broadcastCoSignedClaimTransaction(chainSwapEntity, serverLockupTransactionHex, userId);
+                } catch (claimError) {
+                    // Already recorded as failed claim by broadcastCoSignedClaimTransaction
+                    this.logger.error("Claim failed", {swapId: chainSwapEntity.swapId, error: claimError});
+                }
+            }
+        }
+    }
+
+    private async tryRefundChainSwap(chainSwapEntity: WithdrawChainSwapTransaction) {
+        try {
+            await this.refundChainSwap(chainSwapEntity);
+        } catch (refundError) {
+            this.logger.error("Error during refund", {swapId: chainSwapEntity.swapId, error: refundError});
         }
     }
 
-    // Mock implementation for testing
     private async updateChainSwapStatus(
-        chainSwapTransactionEntityId: number,
+        chainSwapEntity: WithdrawChainSwapTransaction,
         status: ChainSwapTransactionStatus,
-        lockupTransactionHash?: string,
-        claimTransactionHash?: string,
-        preimageHash?: string
+        changes: ChainSwapStatusChanges = {}
     ) {
-        console.log(
-            `Updating swap status to: ${ChainSwapTransactionStatus[status]}`
+        assertChainSwapTransition(chainSwapEntity.swapId, chainSwapEntity.status, status);
+
+        this.logger.info("Updating swap status", {
+            swapId: chainSwapEntity.swapId,
+            swapStatus: ChainSwapTransactionStatus[status],
+            ...changes,
+        });
+
+        const previousStatus = chainSwapEntity.status;
+        const events = getStatusChangeEvents({...chainSwapEntity, ...changes, status}, previousStatus, changes);
+        await this.chainSwapRepository.updateStatus(
+            chainSwapEntity.id,
+            status,
+            changes,
+            this.webhookDispatcher ? events : []
         );
-        if (lockupTransactionHash) console.log("Lockup TX:", lockupTransactionHash);
-        if (claimTransactionHash) console.log("Claim TX:", claimTransactionHash);
-        if (preimageHash) console.log("Preimage hash:", preimageHash);
+        Object.assign(chainSwapEntity, changes, {status});
+        this.publishSwapEvents(events);
+
+        await this.recordStatusMetrics(chainSwapEntity, previousStatus, status);
+    }
+
+    /**
+     * Emits events that were just stored, and has the webhook deliver them right away
+     */
+    private publishSwapEvents(events: ChainSwapEvent[]) {
+        if (events.length === 0) {
+            return;
+        }
+        events.forEach((event) => this.swapEvents.next(event));
+        this.webhookDispatcher?.notify();
+    }
+
+    private async recordStatusMetrics(
+        chainSwapEntity: WithdrawChainSwapTransaction,
+        from: ChainSwapTransactionStatus,
+        to: ChainSwapTransactionStatus
+    ) {
+        const {direction} = chainSwapEntity;
+        this.metrics.statusTransitions.inc({
+            from: ChainSwapTransactionStatus[from],
+            to: ChainSwapTransactionStatus[to],
+        });
+
+        if (to === ChainSwapTransactionStatus.LOCKUP_FAILED || to === ChainSwapTransactionStatus.CLAIM_FAILED) {
+            this.metrics.swapsFailed.inc({direction, status: ChainSwapTransactionStatus[to]});
+        }
+        if (to !== ChainSwapTransactionStatus.CLAIM_CONFIRMED) {
+            return;
+        }
+
+        this.metrics.swapsCompleted.inc({direction});
+        try {
+            // Both timestamps come from the history, so they are on the same clock
+            const history = await this.chainSwapRepository.getStatusHistory(chainSwapEntity.id);
+            const lockupConfirmed = history
+                .filter((entry) => entry.status === ChainSwapTransactionStatus.LOCKUP_CONFIRMED)
+                .pop();
+            const claimConfirmed = history.pop();
+            if (lockupConfirmed && claimConfirmed) {
+                this.metrics.lockupToClaimSeconds.observe(
+                    {direction},
+                    (claimConfirmed.createdAt.getTime() - lockupConfirmed.createdAt.getTime()) / 1000
+                );
+            }
+        } catch (error) {
+            this.logger.warn("Failed to measure lockup to claim time", {swapId: chainSwapEntity.swapId, error});
+        }
+    }
+
+    async getChainSwap(swapId: string): Promise<WithdrawChainSwapTransaction | null> {
+        return this.chainSwapRepository.findBySwapId(swapId);
+    }
+
+    async listChainSwaps(filter: ChainSwapFilter = {}): Promise<WithdrawChainSwapTransaction[]> {
+        return this.chainSwapRepository.find(filter);
+    }
+
+    async getChainSwapStatusHistory(swapId: string) {
+        const chainSwapEntity = await this.chainSwapRepository.findBySwapId(swapId);
+
+        if (!chainSwapEntity) {
+            throw new Error(`Chain swap not found: '${swapId}'`);
+        }
+
+        return this.chainSwapRepository.getStatusHistory(chainSwapEntity.id);
     }
 
     private async finishChainSwap(
@@ -434,30 +1648,95 @@ export class ChainToChainSwapService {
         amount: number
     ) {
         await this.updateChainSwapStatus(
-            chainSwapEntity.id,
+            chainSwapEntity,
             ChainSwapTransactionStatus.CLAIM_CONFIRMED
         );
-        console.log("✅ Chain swap finished successfully");
+        this.logger.info("Chain swap finished successfully", {swapId: chainSwapEntity.swapId});
+    }
+
+    private async getBoltzPartialSignatureWithRetries(
+        preimage: Buffer,
+        swapEntity: WithdrawChainSwapTransaction,
+        claimPubNonce: Buffer,
+        claimTransaction: bitcoin.Transaction | LiquidTransaction,
+        inputIndex = 0
+    ) {
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await this.getBoltzPartialSignature(
+                    preimage,
+                    swapEntity,
+                    claimPubNonce,
+                    claimTransaction,
+                    inputIndex
+                );
+            } catch (error) {
+                if (attempt > this.claimFallbackOptions.cooperativeRetries) {
+                    throw error;
+                }
+
+                this.logger.warn("Failed to get Boltz partial signature - retrying", {
+                    swapId: swapEntity.swapId,
+                    attempt,
+                    retryDelayMs: this.claimFallbackOptions.retryDelayMs,
+                    error,
+                });
+                await new Promise((resolve) =>
+                    setTimeout(resolve, this.claimFallbackOptions.retryDelayMs)
+                );
+            }
+        }
     }
 
     async getBoltzPartialSignature(
         preimage: Buffer,
         swapEntity: WithdrawChainSwapTransaction,
         claimPubNonce: Buffer,
-        claimTransaction: Transaction
+        claimTransaction: bitcoin.Transaction | LiquidTransaction,
+        // Input of the claim that spends the server lockup of this swap
+        inputIndex = 0,
+        // Boltz only hands out the details of its claim until it claimed, so a replaced claim of ours
+        // asks for our signature alone
+        signBoltzClaim = true
     ) {
-        console.log("Getting Boltz partial signature...");
+        this.logger.info("Getting Boltz partial signature", {swapId: swapEntity.swapId});
+
+        const ourClaimDetails = await this.boltzClient.claimChainSwap(
+            swapEntity.swapId,
+            preimage.toString("hex"),
+            signBoltzClaim ? await this.signBoltzClaim(swapEntity) : undefined,
+            {
+                index: inputIndex,
+                transaction: claimTransaction.toHex(),
+                pubNonce: claimPubNonce.toString("hex"),
+            }
+        );
+
+        this.logger.info("Boltz partial signature obtained", {swapId: swapEntity.swapId});
+
+        return {
+            pubNonce: Buffer.from(ourClaimDetails.pubNonce, "hex"),
+            partialSignature: Buffer.from(ourClaimDetails.partialSignature, "hex"),
+        };
+    }
 
+    private async signBoltzClaim(swapEntity: WithdrawChainSwapTransaction) {
         const serverClaimDetails = await this.boltzClient.getChainSwapClaimDetails(
             swapEntity.swapId
         );
         const boltzPublicKey = Buffer.from(swapEntity.lockupPublicKey, "hex");
+        // Boltz claims our lockup, in whose tree we are the refund key
+        const keyPair = this.keyProvider.getKeyPair(
+            SwapKeyType.REFUND,
+            swapEntity.keyIndex
+        );
 
-        const musig = new Musig(this.zkp, this.keyPair, randomBytes(32), [
+        const musig = new Musig(this.zkp, keyPair, this.randomBytes(32), [
             boltzPublicKey,
-            this.keyPair.publicKey,
+            keyPair.publicKey,
         ]);
-        LiquidTaprootUtils.tweakMusig(
+        this.tweakMusig(
+            getChainSwapCurrencies(swapEntity.direction).from,
             musig,
             SwapTreeSerializer.deserializeSwapTree(swapEntity.lockupSwapTree).tree
         );
@@ -470,25 +1749,9 @@ export class ChainToChainSwapService {
         );
         const partialSig = musig.signPartial();
 
-        const ourClaimDetails = await this.boltzClient.claimChainSwap(
-            swapEntity.swapId,
-            preimage.toString("hex"),
-            {
-                partialSignature: Buffer.from(partialSig).toString("hex"),
-                pubNonce: Buffer.from(musig.getPublicNonce()).toString("hex"),
-            },
-            {
-                index: 0,
-                transaction: claimTransaction.toHex(),
-                pubNonce: claimPubNonce.toString("hex"),
-            }
-        );
-
-        console.log("✅ Boltz partial signature obtained");
-
         return {
-            pubNonce: Buffer.from(ourClaimDetails.pubNonce, "hex"),
-            partialSignature: Buffer.from(ourClaimDetails.partialSignature, "hex"),
+            partialSignature: Buffer.from(partialSig).toString("hex"),
+            pubNonce: Buffer.from(musig.getPublicNonce()).toString("hex"),
         };
     }
 
@@ -496,13 +1759,14 @@ export class ChainToChainSwapService {
         claimDetails: {
             musig: any;
             transaction: any;
-            swapOutput: any;
+            swapOutput: TransactionOutput | LiquidTransactionOutput;
             boltzPublicKey: any;
+            feeRate: number;
         },
         chainSwapEntity: WithdrawChainSwapTransaction,
         boltzPartialSig: { pubNonce: any; partialSignature: any }
     ) {
-        console.log("Performing chain swap claim...");
+        this.logger.info("Performing chain swap claim", {swapId: chainSwapEntity.swapId});
 
         // Aggregate the nonces
         claimDetails.musig.aggregateNonces([
@@ -511,11 +1775,10 @@ export class ChainToChainSwapService {
 
         // Initialize the session to sign the claim transaction
         claimDetails.musig.initializeSession(
-            claimDetails.transaction.hashForWitnessV1(
-                0,
-                [claimDetails.swapOutput.script],
-                [claimDetails.swapOutput.value],
-                Transaction.SIGHASH_DEFAULT
+            this.hashForWitnessV1(
+                getChainSwapCurrencies(chainSwapEntity.direction).to,
+                claimDetails.swapOutput,
+                claimDetails.transaction
             )
         );
 
@@ -534,36 +1797,381 @@ export class ChainToChainSwapService {
         ];
 
         // Broadcast the finalized transaction
-        await this.boltzClient.claimBTC(claimDetails.transaction.toHex());
+        const claimTransactionId = await this.boltzClient.broadcastTransaction(
+            getChainSwapCurrencies(chainSwapEntity.direction).to,
+            claimDetails.transaction.toHex()
+        );
 
-        console.log(
-            `✅ Sent claim transaction for chain swap: '${chainSwapEntity.swapId}'`
+        await this.updateChainSwapStatus(
+            chainSwapEntity,
+            ChainSwapTransactionStatus.CLAIM_PENDING,
+            {claimTransactionId, claimType: "cooperative", claimFeeRate: claimDetails.feeRate}
         );
+        this.watchClaim(chainSwapEntity);
+
+        this.logger.info("Sent claim transaction", {swapId: chainSwapEntity.swapId, claimTransactionId});
     }
 
-    private async calculateLockupSend(amount: number) {
+    private async performScriptPathClaim(
+        preimage: Buffer,
+        chainSwapEntity: WithdrawChainSwapTransaction,
+        lockupTransactionHex: string,
+        feeRate?: number
+    ) {
+        this.logger.info("Performing script path chain swap claim", {swapId: chainSwapEntity.swapId});
+
+        // The script path claim is fully signed by us, no MuSig session with Boltz needed
+        const claimDetails = await this.createClaimTransaction(
+            preimage,
+            chainSwapEntity,
+            lockupTransactionHex,
+            false,
+            feeRate
+        );
+
+        const claimTransactionId = await this.boltzClient.broadcastTransaction(
+            getChainSwapCurrencies(chainSwapEntity.direction).to,
+            claimDetails.transaction.toHex()
+        );
+
+        await this.updateChainSwapStatus(
+            chainSwapEntity,
+            ChainSwapTransactionStatus.CLAIM_PENDING,
+            {claimTransactionId, claimType: "scriptPath", claimFeeRate: claimDetails.feeRate}
+        );
+        this.watchClaim(chainSwapEntity);
+
+        this.logger.info("Sent script path claim transaction", {
+            swapId: chainSwapEntity.swapId,
+            claimTransactionId,
+        });
+    }
+
+    /**
+     * Watches a broadcast claim until the chain reports it confirmed, bumping its fee meanwhile
+     */
+    private watchClaim(chainSwapEntity: WithdrawChainSwapTransaction) {
+        if (
+            chainSwapEntity.status !== ChainSwapTransactionStatus.CLAIM_PENDING ||
+            !chainSwapEntity.claimTransactionId
+        ) {
+            return;
+        }
+
+        this.claimFeeBumper.track(
+            chainSwapEntity.swapId,
+            getChainSwapCurrencies(chainSwapEntity.direction).to,
+            chainSwapEntity.claimTransactionId,
+            chainSwapEntity.claimFeeRate ?? 0,
+            (claimTransactionId) => this.confirmClaim(chainSwapEntity, claimTransactionId),
+            // Replacing a batched claim would need all swaps of the batch
+            this.claimFeeBumpOptions.enabled && chainSwapEntity.claimType !== "batched"
+                ? (feeRate) => this.bumpClaimFee(chainSwapEntity, feeRate)
+                : undefined
+        );
+    }
+
+    private async confirmClaim(chainSwapEntity: WithdrawChainSwapTransaction, claimTransactionId: string) {
+        if (!canTransitionChainSwap(chainSwapEntity.status, ChainSwapTransactionStatus.CLAIM_CONFIRMED)) {
+            return;
+        }
+
+        this.logger.info("Chain swap claim confirmed", {swapId: chainSwapEntity.swapId, claimTransactionId});
+        await this.updateChainSwapStatus(chainSwapEntity, ChainSwapTransactionStatus.CLAIM_CONFIRMED);
+        this.refundScheduler.cancel(chainSwapEntity.swapId);
+    }
+
+    /**
+     * Pays `feeRate` for the claim, either with a replacement or with a child spending its output.
+     * Returns the transaction whose confirmation completes the claim
+     */
+    private async bumpClaimFee(
+        chainSwapEntity: WithdrawChainSwapTransaction,
+        feeRate: number
+    ): Promise<string> {
+        const {to} = getChainSwapCurrencies(chainSwapEntity.direction);
+
+        if (this.claimFeeBumpOptions.strategy === "cpfp") {
+            const claimTransaction = await this.boltzClient.getTransaction(
+                to,
+                chainSwapEntity.claimTransactionId
+            );
+            const childTransactionId = await this.claimFeeBumpOptions.cpfp({
+                swapId: chainSwapEntity.swapId,
+                currency: to,
+                transactionId: chainSwapEntity.claimTransactionId,
+                transactionHex: claimTransaction.hex,
+                // The claim has a single output to the user's address
+                outputIndex: 0,
+                feeRate,
+            });
+            this.logger.info("Sent CPFP child for claim", {
+                swapId: chainSwapEntity.swapId,
+                childTransactionId,
+                feeRate,
+            });
+            await this.updateChainSwapStatus(
+                chainSwapEntity,
+                ChainSwapTransactionStatus.CLAIM_PENDING,
+                {claimFeeRate: feeRate}
+            );
+            return chainSwapEntity.claimTransactionId;
+        }
+
+        const preimage = Buffer.from(chainSwapEntity.preimage, "hex");
+        const serverLockupTransactionHex = (
+            await this.boltzClient.getChainSwapTransactions(chainSwapEntity.swapId)
+        ).serverLock?.transaction.hex;
+
+        // A script path claim is signed by us alone, a cooperative one needs a new MuSig round with Boltz
+        if (chainSwapEntity.claimType === "scriptPath") {
+            await this.performScriptPathClaim(preimage, chainSwapEntity, serverLockupTransactionHex, feeRate);
+        } else {
+            const claimTransactionDetails = await this.createClaimTransaction(
+                preimage,
+                chainSwapEntity,
+                serverLockupTransactionHex,
+                true,
+                feeRate
+            );
+            const boltzPartialSignature = await this.getBoltzPartialSignature(
+                preimage,
+                chainSwapEntity,
+                Buffer.from(claimTransactionDetails.musig.getPublicNonce()),
+                claimTransactionDetails.transaction,
+                0,
+                false
+            );
+            await this.performChainSwapClaim(claimTransactionDetails, chainSwapEntity, boltzPartialSignature);
+        }
+
+        return chainSwapEntity.claimTransactionId;
+    }
+
+    private tweakMusig(currency: ChainSwapCurrency, musig: Musig, tree: Taptree): Buffer {
+        // Liquid leaves are hashed with different tags, so the tweak depends on the chain
+        return currency === "L-BTC"
+            ? LiquidTaprootUtils.tweakMusig(musig, tree)
+            : TaprootUtils.tweakMusig(musig, tree);
+    }
+
+    private hashForWitnessV1(
+        currency: ChainSwapCurrency,
+        swapOutput: TransactionOutput | LiquidTransactionOutput,
+        transaction: bitcoin.Transaction | LiquidTransaction,
+        // All outputs spent by the transaction, needed when it has more than one input
+        spentOutputs: (TransactionOutput | LiquidTransactionOutput)[] = [swapOutput],
+        inputIndex = 0
+    ): Buffer {
+        if (currency === "L-BTC") {
+            return LiquidTaprootUtils.hashForWitnessV1(
+                this.liquidNetwork,
+                spentOutputs as LiquidTransactionOutput[],
+                transaction as LiquidTransaction,
+                inputIndex
+            );
+        }
+
+        const bitcoinOutputs = spentOutputs as TransactionOutput[];
+        return (transaction as bitcoin.Transaction).hashForWitnessV1(
+            inputIndex,
+            bitcoinOutputs.map((output) => output.script),
+            bitcoinOutputs.map((output) => output.value),
+            Transaction.SIGHASH_DEFAULT
+        );
+    }
+
+    private detectSwapOutput<T extends bitcoin.Transaction | LiquidTransaction>(
+        tweakedKey: Buffer,
+        lockupTx: T,
+        diagnosticsInput: Omit<DetectSwapDiagnosticsInput, "transactionHex">
+    ): SpentOutput<T> {
+        const swapOutput = detectSwap<T>(tweakedKey, lockupTx);
+
+        if (swapOutput === undefined) {
+            // Works out which of the assumptions about keys, tree and chain the lockup doesn't fit
+            const diagnosis = diagnoseDetectSwap(this.zkp, {
+                ...diagnosticsInput,
+                transactionHex: lockupTx.toHex(),
+            });
+            this.logger.error("No swap output found in lockup transaction", {
+                tweakedKey,
+                findings: diagnosis.findings,
+                diagnosis: formatDetectSwapDiagnosis(diagnosis),
+            });
+            throw new Error("No swap output found in lockup transaction");
+        }
+
+        this.logger.debug("Detected swap output", {
+            outputs: lockupTx.outs.length,
+            vout: swapOutput.vout,
+        });
+
+        // Spending the output takes the hash of its transaction as well
+        return {...swapOutput, txHash: lockupTx.getHash()} as SpentOutput<T>;
+    }
+
+    private toOutputScript(currency: ChainSwapCurrency, address: string): Buffer {
+        return currency === "L-BTC"
+            ? LiquidAddress.toOutputScript(address, this.liquidNetwork)
+            : bitcoin.address.toOutputScript(address, this.bitcoinNetwork);
+    }
+
+    private getLiquidBlindingPublicKey(liquidAddress: string): Buffer | undefined {
+        return LiquidAddress.isConfidential(liquidAddress)
+            ? LiquidAddress.fromConfidential(liquidAddress).blindingKey
+            : undefined;
+    }
+
+    /**
+     * Quotes how much arrives on the `to` chain when the user sends `sendAmount`
+     */
+    async quoteBySendAmount(
+        sendAmount: number,
+        direction: ChainSwapDirection = ChainSwapDirection.LIQUID_TO_BITCOIN
+    ): Promise<ChainSwapQuote> {
+        this.session.recorder?.record({type: "call", name: "quoteBySendAmount", args: [sendAmount, direction]});
+
+        const pair = await this.getChainPair(direction);
+        return this.withEstimatedClaimFee(quoteSendAmount(pair, sendAmount), direction);
+    }
+
+    /**
+     * Quotes how much the user has to send for `receiveAmount` to arrive on the `to` chain
+     */
+    async quoteByReceiveAmount(
+        receiveAmount: number,
+        direction: ChainSwapDirection = ChainSwapDirection.LIQUID_TO_BITCOIN
+    ): Promise<ChainSwapQuote> {
+        this.session.recorder?.record({type: "call", name: "quoteByReceiveAmount", args: [receiveAmount, direction]});
+
+        const pair = await this.getChainPair(direction);
+        return this.withEstimatedClaimFee(quoteReceiveAmount(pair, receiveAmount), direction);
+    }
+
+    private async getChainPair(direction: ChainSwapDirection) {
+        const {from, to} = getChainSwapCurrencies(direction);
         const swapPairs = await this.boltzClient.getChainSwapFee();
-        const boltzFeePercentage = swapPairs["L-BTC"]["BTC"].fees.percentage;
-        const serverFee = swapPairs["L-BTC"]["BTC"].fees.minerFees.server;
-        const userClaimFee = swapPairs["L-BTC"]["BTC"].fees.minerFees.user.claim;
-        const minerFees = serverFee + userClaimFee;
-        const lockupAmount = Math.ceil((amount + minerFees) / (1 - boltzFeePercentage / 100));
-        const boltzFee = lockupAmount - amount - minerFees;
+        const pair = swapPairs[from]?.[to];
+        if (!pair) {
+            throw new Error(`Boltz does not offer chain swaps from ${from} to ${to}`);
+        }
+        return pair;
+    }
+
+    private async withEstimatedClaimFee(
+        quote: ChainSwapQuote,
+        direction: ChainSwapDirection
+    ): Promise<ChainSwapQuote> {
+        const {to} = getChainSwapCurrencies(direction);
+        const networkFee = await this.boltzClient.getNetworkFee(to);
+        return {
+            ...quote,
+            estimatedClaimFee: Math.ceil(networkFee.fee * estimatedClaimVsize[to]),
+        };
+    }
+
+    private async calculateLockupSend(amount: number, direction: ChainSwapDirection) {
+        const {from, to} = getChainSwapCurrencies(direction);
+        const quote = quoteReceiveAmount(await this.getChainPair(direction), amount);
+
+        if (!isWithinLimits(quote)) {
+            throw new ChainSwapQuoteError(
+                `Lockup amount ${quote.sendAmount} is outside of the limits of ${from}/${to}: ${quote.limits.minimal} - ${quote.limits.maximal}`
+            );
+        }
 
         return {
-            lockupAmount,
-            minerFees,
-            boltzFee,
+            lockupAmount: quote.sendAmount,
+            // Boltz locks up what we receive plus the fee of our claim transaction
+            claimAmount: quote.serverLockAmount,
+            minerFees: quote.serverMinerFee + quote.userClaimFee,
+            boltzFee: quote.boltzFee,
+            pairHash: quote.pairHash,
         };
     }
 
+    /**
+     * Makes the calls of the replayed recording again, each once everything recorded before it was
+     * played back, and resolves when the whole recording was played back
+     */
+    async replayRecordedSession() {
+        if (!this.session.replayer) {
+            throw new Error("No session recording to replay configured");
+        }
+
+        for (const call of this.session.replayer.getCalls()) {
+            await this.session.replayer.reachCall(call.index);
+            this.logger.info("Replaying recorded call", {call: call.name, args: call.args});
+
+            try {
+                await (this[call.name] as (...args: unknown[]) => Promise<unknown>).apply(this, call.args);
+            } catch (error) {
+                this.logger.error("Replayed call failed", {call: call.name, error});
+            }
+        }
+
+        await this.session.replayer.finished;
+        // The last frames and claim checks of the recording may still be processed
+        while (this.pendingUpdates > 0 || this.claimFeeBumper.checking) {
+            await new Promise((resolve) => setTimeout(resolve, 10));
+        }
+    }
+
+    /**
+     * Random bytes for preimages and MuSig2 sessions, which replays have to draw exactly like the recording
+     */
+    private randomBytes(size: number): Buffer {
+        if (this.session.replayer) {
+            return this.session.replayer.nextRandom(size);
+        }
+
+        const bytes = cryptoRandomBytes(size);
+        this.session.recorder?.record({type: "random", hex: bytes.toString("hex")});
+        return bytes;
+    }
+
+    /**
+     * Blinding draws randomness of its own, so replays take Liquid transactions from the recording
+     * instead of blinding them again
+     */
+    private replayableLiquidTransaction(transaction: LiquidTransaction): LiquidTransaction {
+        if (this.session.replayer) {
+            return this.session.replayer.replayLiquidTransaction(transaction);
+        }
+
+        this.session.recorder?.record({type: "liquidTransaction", hex: transaction.toHex()});
+        return transaction;
+    }
+
     // Method to disconnect WebSocket
     disconnect() {
+        void this.metricsServer?.stop();
+        this.webhookDispatcher?.stop();
+        this.refundScheduler.stop();
+        this.claimFeeBumper.stop();
+        this.claimBatcher?.stop();
         this.boltzWebSocketClient.disconnect();
     }
 
+    getNetwork(): ChainSwapNetwork {
+        return this.network;
+    }
+
+    getBoltzClient(): BoltzClient {
+        return this.boltzClient;
+    }
+
+    getBoltzWebSocketClient(): BoltzWebsocketClient {
+        return this.boltzWebSocketClient;
+    }
+
     // Method to check WebSocket connection status
     isWebSocketConnected(): boolean {
         return this.boltzWebSocketClient.isWebSocketConnected();
     }
+
+    onWebSocketConnectionState() {
+        return this.boltzWebSocketClient.onConnectionState();
+    }
 }
@@ -0,0 +1,89 @@
+import { JsonLogger, Logger } from "./logger";
+
+interface PendingBatch<T> {
+  items: T[];
+  waiters: { resolve: () => void; reject: (error: Error) => void }[];
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Collects claims that can share a transaction and hands them over together once
+ * the batch window of their group closes or the batch is full
+ */
+export class ClaimBatcher<T> {
+  private batches = new Map<string, PendingBatch<T>>();
+
+  constructor(
+    // Items with the same key end up in the same transaction
+    private groupKey: (item: T) => string,
+    private claimBatch: (items: T[]) => Promise<void>,
+    private windowMs = 30_000,
+    private maxBatchSize = 10,
+    private logger: Logger = new JsonLogger(),
+  ) {}
+
+  /**
+   * Resolves once the batch the item ended up in was claimed
+   */
+  add(item: T): Promise<void> {
+    const key = this.groupKey(item);
+    let batch = this.batches.get(key);
+
+    if (!batch) {
+      batch = {
+        items: [],
+        waiters: [],
+        timer: setTimeout(() => this.flush(key), this.windowMs),
+      };
+      this.batches.set(key, batch);
+    }
+
+    const claimed = new Promise<void>((resolve, reject) =>
+      batch.waiters.push({ resolve, reject }),
+    );
+    batch.items.push(item);
+    this.logger.info("Added claim to batch", {
+      batch: key,
+      size: batch.items.length,
+      maxBatchSize: this.maxBatchSize,
+    });
+
+    if (batch.items.length >= this.maxBatchSize) {
+      this.flush(key);
+    }
+
+    return claimed;
+  }
+
+  /**
+   * Drops all waiting batches, their swaps are claimed again after recovery
+   */
+  stop() {
+    this.batches.forEach((batch) => {
+      clearTimeout(batch.timer);
+      batch.waiters.forEach(({ reject }) =>
+        reject(new Error("Claim batcher stopped")),
+      );
+    });
+    this.batches.clear();
+  }
+
+  private flush(key: string) {
+    const batch = this.batches.get(key);
+    if (!batch) {
+      return;
+    }
+
+    clearTimeout(batch.timer);
+    this.batches.delete(key);
+
+    this.logger.info("Claiming batch", {
+      batch: key,
+      size: batch.items.length,
+    });
+    this.claimBatch(batch.items).then(
+      () => batch.waiters.forEach(({ resolve }) => resolve()),
+      (error) => batch.waiters.forEach(({ reject }) => reject(error)),
+    );
+  }
+}
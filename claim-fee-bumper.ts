@@ -0,0 +1,207 @@
+import { BoltzClient } from "./boltz-client";
+import { ChainSwapCurrency } from "./chain-swap-direction";
+import { JsonLogger, Logger } from "./logger";
+
+export type ClaimFeeBumpStrategy = "rbf" | "cpfp";
+
+/**
+ * Claim whose output a CPFP child has to spend so that both pay `feeRate` as a package
+ */
+export interface CpfpRequest {
+  swapId: string;
+  currency: ChainSwapCurrency;
+  transactionId: string;
+  transactionHex: string;
+  outputIndex: number;
+  feeRate: number;
+}
+
+// The claim pays to the user's address, so only its owner can build the child
+export type CpfpHandler = (request: CpfpRequest) => Promise<string>;
+
+export interface ClaimFeeBumperOptions {
+  pollIntervalMs?: number;
+  // Highest fee rate in sat/vbyte a bump may pay
+  maxFeeRate?: Partial<Record<ChainSwapCurrency, number>>;
+  // A bump has to raise the fee rate by at least this many sat/vbyte to be relayed
+  minFeeRateIncrement?: Partial<Record<ChainSwapCurrency, number>>;
+}
+
+interface TrackedClaim {
+  currency: ChainSwapCurrency;
+  // For CPFP this stays the parent, whose confirmation is what we wait for
+  transactionId: string;
+  feeRate: number;
+  confirmed: (transactionId: string) => Promise<void>;
+  // Undefined for claims whose fee isn't bumped
+  bump?: (feeRate: number) => Promise<string>;
+}
+
+export const defaultClaimFeeBumperOptions: Required<ClaimFeeBumperOptions> = {
+  pollIntervalMs: 60_000,
+  maxFeeRate: {
+    BTC: 200,
+    "L-BTC": 1,
+  },
+  minFeeRateIncrement: {
+    BTC: 1,
+    "L-BTC": 0.1,
+  },
+};
+
+/**
+ * Watches broadcast claims until they confirm on chain and bumps their fee
+ * whenever the network fee rate rose past the one they pay, up to the
+ * configured cap
+ */
+export class ClaimFeeBumper {
+  private trackedClaims = new Map<string, TrackedClaim>();
+  private pollTimer?: NodeJS.Timeout;
+  private isChecking = false;
+  private options: Required<ClaimFeeBumperOptions>;
+
+  constructor(
+    private boltzClient: BoltzClient,
+    options: ClaimFeeBumperOptions = {},
+    private logger: Logger = new JsonLogger(),
+  ) {
+    this.options = {
+      ...defaultClaimFeeBumperOptions,
+      ...options,
+      maxFeeRate: {
+        ...defaultClaimFeeBumperOptions.maxFeeRate,
+        ...options.maxFeeRate,
+      },
+      minFeeRateIncrement: {
+        ...defaultClaimFeeBumperOptions.minFeeRateIncrement,
+        ...options.minFeeRateIncrement,
+      },
+    };
+  }
+
+  /**
+   * `confirmed` is called once the claim confirmed; the claim stays watched until
+   * it succeeds. `bump` replaces or supplements the claim at the given fee rate
+   * and returns the transaction whose confirmation completes the claim
+   */
+  track(
+    swapId: string,
+    currency: ChainSwapCurrency,
+    transactionId: string,
+    feeRate: number,
+    confirmed: (transactionId: string) => Promise<void>,
+    bump?: (feeRate: number) => Promise<string>,
+  ) {
+    this.logger.info("Watching claim", {
+      swapId,
+      currency,
+      transactionId,
+      feeRate,
+    });
+    this.trackedClaims.set(swapId, {
+      currency,
+      transactionId,
+      feeRate,
+      confirmed,
+      bump,
+    });
+
+    if (!this.pollTimer) {
+      this.pollTimer = setInterval(
+        () => this.checkClaims(),
+        this.options.pollIntervalMs,
+      );
+    }
+  }
+
+  // A check may still be acting on the responses it got
+  get checking(): boolean {
+    return this.isChecking;
+  }
+
+  untrack(swapId: string) {
+    if (this.trackedClaims.delete(swapId)) {
+      this.logger.info("Stopped watching claim", { swapId });
+    }
+
+    if (this.trackedClaims.size === 0) {
+      this.stop();
+    }
+  }
+
+  stop() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  private async checkClaims() {
+    // A slow MuSig round must not be started a second time by the next tick
+    if (this.isChecking) {
+      return;
+    }
+    this.isChecking = true;
+
+    try {
+      const feeRates = new Map<ChainSwapCurrency, number>();
+
+      for (const [swapId, claim] of Array.from(this.trackedClaims.entries())) {
+        try {
+          const transaction = await this.boltzClient.getTransaction(
+            claim.currency,
+            claim.transactionId,
+          );
+          if (transaction.confirmations > 0) {
+            this.logger.info("Claim confirmed", {
+              swapId,
+              transactionId: claim.transactionId,
+            });
+            await claim.confirmed(claim.transactionId);
+            this.untrack(swapId);
+            continue;
+          }
+          if (!claim.bump) {
+            continue;
+          }
+
+          if (!feeRates.has(claim.currency)) {
+            feeRates.set(
+              claim.currency,
+              (await this.boltzClient.getNetworkFee(claim.currency)).fee,
+            );
+          }
+
+          const targetFeeRate = Math.min(
+            feeRates.get(claim.currency),
+            this.options.maxFeeRate[claim.currency],
+          );
+          if (
+            targetFeeRate <
+            claim.feeRate + this.options.minFeeRateIncrement[claim.currency]
+          ) {
+            continue;
+          }
+
+          this.logger.info("Bumping claim fee", {
+            swapId,
+            transactionId: claim.transactionId,
+            feeRate: claim.feeRate,
+            targetFeeRate,
+          });
+          claim.transactionId = await claim.bump(targetFeeRate);
+          claim.feeRate = targetFeeRate;
+        } catch (error) {
+          this.logger.error("Failed to check claim - retrying on next check", {
+            swapId,
+            error,
+          });
+        }
+      }
+    } catch (error) {
+      this.logger.error("Failed to check pending claims", { error });
+    } finally {
+      this.isChecking = false;
+    }
+  }
+}
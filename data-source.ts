@@ -0,0 +1,43 @@
+import "reflect-metadata";
+import { DataSource } from "typeorm";
+import { WithdrawChainSwapTransaction } from "./entities/withdraw-chain-swap-transaction.entity";
+import { ChainSwapStatusHistory } from "./entities/chain-swap-status-history.entity";
+import { WebhookOutboxEntry } from "./entities/webhook-outbox-entry.entity";
+import { SwapKeyReservation } from "./entities/swap-key-reservation.entity";
+import { CreateChainSwapTables1792368000000 } from "./migrations/1792368000000-CreateChainSwapTables";
+import { AddSwapKeyIndex1792454400000 } from "./migrations/1792454400000-AddSwapKeyIndex";
+import { AddQuoteDecision1792540800000 } from "./migrations/1792540800000-AddQuoteDecision";
+import { AddClaimFeeRate1792627200000 } from "./migrations/1792627200000-AddClaimFeeRate";
+import { CreateWebhookOutbox1792713600000 } from "./migrations/1792713600000-CreateWebhookOutbox";
+import { AddWebhookOutboxSwapIndex1792800000000 } from "./migrations/1792800000000-AddWebhookOutboxSwapIndex";
+import { CreateSwapKeyReservations1792886400000 } from "./migrations/1792886400000-CreateSwapKeyReservations";
+import { AddQuoteDecisionReason1792972800000 } from "./migrations/1792972800000-AddQuoteDecisionReason";
+
+export const createDataSource = (
+  database = process.env.DATABASE_PATH || "swaps.sqlite",
+) =>
+  new DataSource({
+    type: "sqlite",
+    database,
+    entities: [
+      WithdrawChainSwapTransaction,
+      ChainSwapStatusHistory,
+      WebhookOutboxEntry,
+      SwapKeyReservation,
+    ],
+    migrations: [
+      CreateChainSwapTables1792368000000,
+      AddSwapKeyIndex1792454400000,
+      AddQuoteDecision1792540800000,
+      AddClaimFeeRate1792627200000,
+      CreateWebhookOutbox1792713600000,
+      AddWebhookOutboxSwapIndex1792800000000,
+      CreateSwapKeyReservations1792886400000,
+      AddQuoteDecisionReason1792972800000,
+    ],
+    migrationsRun: true,
+    synchronize: false,
+  });
+
+// Used by the TypeORM CLI to run and generate migrations
+export default createDataSource();
@@ -0,0 +1,319 @@
+import { randomBytes } from "crypto";
+import * as bitcoin from "bitcoinjs-lib";
+import {
+  address as LiquidAddress,
+  networks as LiquidNetworkTypes,
+  Transaction as LiquidTransaction,
+} from "liquidjs-lib";
+import { Secp256k1ZKP } from "@vulpemventures/secp256k1-zkp";
+import { ECPairFactory } from "ecpair";
+import * as ecc from "tiny-secp256k1";
+import { Musig, Scripts, SwapTreeSerializer, TaprootUtils } from "boltz-core";
+import { TaprootUtils as LiquidTaprootUtils } from "boltz-core/dist/lib/liquid";
+import { ChainSwapCurrency } from "./chain-swap-direction";
+import { SwapTreeDto } from "./dto/swap-tree.dto";
+
+export interface DetectSwapDiagnosticsInput {
+  // Chain the lockup is assumed to be on
+  currency: ChainSwapCurrency;
+  // Tree the lockup is assumed to commit to
+  swapTree: SwapTreeDto;
+  // The other tree of the chain swap, to spot claim and lockup trees mixed up
+  otherSwapTree?: SwapTreeDto;
+  serverPublicKey: string;
+  ourPublicKey: string;
+  transactionHex: string;
+  // Address Boltz returned for the lockup
+  lockupAddress?: string;
+  // Network the lockup address is assumed to be on
+  network?: "mainnet" | "testnet" | "regtest";
+}
+
+/**
+ * One way of deriving the lockup output script from the keys and trees
+ */
+export interface DetectSwapVariant {
+  keyOrder: "serverFirst" | "oursFirst";
+  // Whose TaprootUtils tweaked the aggregated key
+  tweak: ChainSwapCurrency;
+  // "none" is the aggregated key without any tweak
+  swapTree: "assumed" | "other" | "none";
+  outputScript: string;
+}
+
+export interface DetectSwapDiagnosis {
+  // Chain whose transaction format the hex parsed with
+  transactionFormat?: ChainSwapCurrency;
+  outputs: { index: number; script: string }[];
+  // What ChainToChainSwapService derives and passes to detectSwap
+  expected: DetectSwapVariant;
+  matches: { variant: DetectSwapVariant; outputIndex: number }[];
+  // Networks the lockup address decodes on
+  lockupAddressNetworks?: string[];
+  findings: string[];
+}
+
+const ECPair = ECPairFactory(ecc);
+
+const bitcoinNetworks: Record<string, bitcoin.networks.Network> = {
+  "bitcoin mainnet": bitcoin.networks.bitcoin,
+  "bitcoin testnet": bitcoin.networks.testnet,
+  "bitcoin regtest": bitcoin.networks.regtest,
+};
+
+const liquidNetworks: Record<string, LiquidNetworkTypes.Network> = {
+  "liquid mainnet": LiquidNetworkTypes.liquid,
+  "liquid testnet": LiquidNetworkTypes.testnet,
+  "liquid regtest": LiquidNetworkTypes.regtest,
+};
+
+const otherCurrency = (currency: ChainSwapCurrency): ChainSwapCurrency =>
+  currency === "BTC" ? "L-BTC" : "BTC";
+
+const parseTransaction = (
+  currency: ChainSwapCurrency,
+  hex: string,
+): bitcoin.Transaction | LiquidTransaction | undefined => {
+  try {
+    return currency === "L-BTC"
+      ? LiquidTransaction.fromHex(hex)
+      : bitcoin.Transaction.fromHex(hex);
+  } catch (error) {
+    return undefined;
+  }
+};
+
+const describeVariant = (variant: DetectSwapVariant) =>
+  `${variant.keyOrder === "serverFirst" ? "Boltz's key first" : "our key first"}, ` +
+  (variant.swapTree === "none"
+    ? "untweaked"
+    : `${variant.tweak} tweak with the ${variant.swapTree} swap tree`);
+
+/**
+ * Derives the lockup output script every plausible way - both MuSig2 key orders, Bitcoin and Liquid
+ * Taproot tweaks, the assumed and the other swap tree - and reports which of the assumptions
+ * ChainToChainSwapService makes differ from what the transaction actually pays to
+ */
+export const diagnoseDetectSwap = (
+  zkp: Secp256k1ZKP,
+  input: DetectSwapDiagnosticsInput,
+): DetectSwapDiagnosis => {
+  // Decoding Taproot addresses needs it
+  bitcoin.initEccLib(ecc);
+
+  const findings: string[] = [];
+  const serverPublicKey = Buffer.from(input.serverPublicKey, "hex");
+  const ourPublicKey = Buffer.from(input.ourPublicKey, "hex");
+
+  // Aggregating only needs our public key, nothing is signed
+  const ourKeys = ECPair.fromPublicKey(ourPublicKey);
+  const trees = {
+    assumed: SwapTreeSerializer.deserializeSwapTree(input.swapTree),
+    other:
+      input.otherSwapTree &&
+      SwapTreeSerializer.deserializeSwapTree(input.otherSwapTree),
+  };
+
+  const variants: DetectSwapVariant[] = [];
+  for (const keyOrder of ["serverFirst", "oursFirst"] as const) {
+    const publicKeys =
+      keyOrder === "serverFirst"
+        ? [serverPublicKey, ourPublicKey]
+        : [ourPublicKey, serverPublicKey];
+    const createMusig = () =>
+      new Musig(zkp, ourKeys, randomBytes(32), publicKeys);
+
+    for (const tweak of ["BTC", "L-BTC"] as ChainSwapCurrency[]) {
+      for (const swapTree of ["assumed", "other"] as const) {
+        if (!trees[swapTree]) {
+          continue;
+        }
+
+        const tweakedKey =
+          tweak === "L-BTC"
+            ? LiquidTaprootUtils.tweakMusig(createMusig(), trees[swapTree].tree)
+            : TaprootUtils.tweakMusig(createMusig(), trees[swapTree].tree);
+        variants.push({
+          keyOrder,
+          tweak,
+          swapTree,
+          outputScript: Scripts.p2trOutput(tweakedKey).toString("hex"),
+        });
+      }
+    }
+
+    variants.push({
+      keyOrder,
+      tweak: input.currency,
+      swapTree: "none",
+      outputScript: Scripts.p2trOutput(
+        createMusig().getAggregatedPublicKey(),
+      ).toString("hex"),
+    });
+  }
+
+  const expected = variants.find(
+    (variant) =>
+      variant.keyOrder === "serverFirst" &&
+      variant.tweak === input.currency &&
+      variant.swapTree === "assumed",
+  );
+
+  let transactionFormat: ChainSwapCurrency | undefined;
+  let transaction = parseTransaction(input.currency, input.transactionHex);
+  if (transaction) {
+    transactionFormat = input.currency;
+  } else {
+    transaction = parseTransaction(
+      otherCurrency(input.currency),
+      input.transactionHex,
+    );
+    if (transaction) {
+      transactionFormat = otherCurrency(input.currency);
+      findings.push(
+        `The transaction is a ${transactionFormat} transaction, but the lockup was assumed to be on ${input.currency}`,
+      );
+    } else {
+      findings.push(
+        "The transaction hex is neither a Bitcoin nor a Liquid transaction",
+      );
+    }
+  }
+
+  const outputs = (transaction?.outs ?? []).map((output, index) => ({
+    index,
+    script: output.script.toString("hex"),
+  }));
+
+  const matches = variants.flatMap((variant) =>
+    outputs
+      .filter((output) => output.script === variant.outputScript)
+      .map((output) => ({ variant, outputIndex: output.index })),
+  );
+
+  const expectedMatch = matches.find(({ variant }) => variant === expected);
+  if (expectedMatch) {
+    findings.push(
+      `Output ${expectedMatch.outputIndex} matches the expected script (${describeVariant(expected)}); detectSwap should find it with these keys and tree`,
+    );
+  } else if (matches.length > 0) {
+    matches.forEach(({ variant, outputIndex }) => {
+      const differences: string[] = [];
+      if (variant.keyOrder !== expected.keyOrder) {
+        differences.push(
+          "the MuSig2 keys were aggregated with our key first instead of Boltz's",
+        );
+      }
+      if (variant.swapTree === "none") {
+        differences.push(
+          "the output is the aggregated key without any swap tree tweak",
+        );
+      } else if (variant.swapTree === "other") {
+        differences.push(
+          "the output commits to the other swap tree of the chain swap, claim and lockup details are mixed up",
+        );
+      }
+      if (variant.swapTree !== "none" && variant.tweak !== expected.tweak) {
+        differences.push(
+          `the key was tweaked with ${variant.tweak} instead of ${expected.tweak} TaprootUtils`,
+        );
+      }
+
+      findings.push(
+        `Output ${outputIndex} matches when ${differences.join(" and ")}`,
+      );
+    });
+  } else {
+    findings.push(
+      "No output matches any variant: the lockup isn't locked to these two keys, check the swap's key index and whether Boltz's key is the one for this side of the swap",
+    );
+  }
+
+  const nonTaprootOutputs = outputs.filter(
+    (output) => !output.script.startsWith("5120"),
+  );
+  if (outputs.length > 0 && nonTaprootOutputs.length === outputs.length) {
+    findings.push("The transaction has no Taproot outputs at all");
+  }
+
+  let lockupAddressNetworks: string[] | undefined;
+  if (input.lockupAddress) {
+    const decoded: { network: string; script: string }[] = [];
+    Object.entries(bitcoinNetworks).forEach(([network, params]) => {
+      try {
+        decoded.push({
+          network,
+          script: bitcoin.address
+            .toOutputScript(input.lockupAddress, params)
+            .toString("hex"),
+        });
+      } catch (error) {
+        // Not an address of this network
+      }
+    });
+    Object.entries(liquidNetworks).forEach(([network, params]) => {
+      try {
+        decoded.push({
+          network,
+          script: LiquidAddress.toOutputScript(input.lockupAddress, params).toString(
+            "hex",
+          ),
+        });
+      } catch (error) {
+        // Not an address of this network
+      }
+    });
+    lockupAddressNetworks = decoded.map(({ network }) => network);
+
+    if (decoded.length === 0) {
+      findings.push("The lockup address doesn't decode on any known network");
+    } else {
+      const chain = input.currency === "L-BTC" ? "liquid" : "bitcoin";
+      const assumedNetwork = input.network
+        ? `${chain} ${input.network}`
+        : chain;
+      if (!decoded.some(({ network }) => network.startsWith(assumedNetwork))) {
+        findings.push(
+          `The lockup address is a ${lockupAddressNetworks.join("/")} address, but the lockup was assumed to be on ${assumedNetwork}`,
+        );
+      }
+
+      const addressScript = decoded[0].script;
+      if (addressScript !== expected.outputScript) {
+        findings.push(
+          "The lockup address doesn't match the expected output script either",
+        );
+      }
+      if (!outputs.some((output) => output.script === addressScript)) {
+        findings.push(
+          "The transaction doesn't pay to the lockup address at all - it may be the wrong transaction",
+        );
+      }
+    }
+  }
+
+  return {
+    transactionFormat,
+    outputs,
+    expected,
+    matches,
+    lockupAddressNetworks,
+    findings,
+  };
+};
+
+export const formatDetectSwapDiagnosis = (diagnosis: DetectSwapDiagnosis) =>
+  [
+    "detectSwap diagnosis:",
+    `- Transaction format: ${diagnosis.transactionFormat ?? "unknown"}`,
+    ...diagnosis.outputs.map(
+      (output) => `- Output ${output.index}: ${output.script}`,
+    ),
+    `- Expected output script: ${diagnosis.expected.outputScript} (${describeVariant(diagnosis.expected)})`,
+    ...(diagnosis.lockupAddressNetworks
+      ? [
+          `- Lockup address networks: ${diagnosis.lockupAddressNetworks.join(", ") || "none"}`,
+        ]
+      : []),
+    ...diagnosis.findings.map((finding) => `→ ${finding}`),
+  ].join("\n");
@@ -0,0 +1,57 @@
+import {
+  DtoValidator,
+  isNumber,
+  isObject,
+  isRecordOf,
+  isString,
+} from "./dto-validation";
+
+export interface ChainPairDto {
+  hash: string;
+  rate: number;
+  limits: {
+    maximal: number;
+    minimal: number;
+    maximalZeroConf: number;
+  };
+  fees: {
+    // Boltz fee in percent of the lockup amount
+    percentage: number;
+    minerFees: {
+      server: number;
+      user: {
+        claim: number;
+        lockup: number;
+      };
+    };
+  };
+}
+
+/**
+ * Chain pairs by the currency locked up (`from`) and the currency received (`to`)
+ */
+export type ChainPairsDto = Record<string, Record<string, ChainPairDto>>;
+
+export const chainPairsValidator: DtoValidator<ChainPairsDto> = isRecordOf(
+  isRecordOf(
+    isObject<ChainPairDto>({
+      hash: isString,
+      rate: isNumber,
+      limits: isObject<ChainPairDto["limits"]>({
+        maximal: isNumber,
+        minimal: isNumber,
+        maximalZeroConf: isNumber,
+      }),
+      fees: isObject<ChainPairDto["fees"]>({
+        percentage: isNumber,
+        minerFees: isObject<ChainPairDto["fees"]["minerFees"]>({
+          server: isNumber,
+          user: isObject<ChainPairDto["fees"]["minerFees"]["user"]>({
+            claim: isNumber,
+            lockup: isNumber,
+          }),
+        }),
+      }),
+    }),
+  ),
+);
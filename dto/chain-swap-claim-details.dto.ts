@@ -0,0 +1,17 @@
+import { DtoValidator, isHexString, isObject } from "./dto-validation";
+
+/**
+ * Boltz's claim of our lockup, which it asks us to co-sign
+ */
+export interface ChainSwapClaimDetailsDto {
+  pubNonce: string;
+  publicKey: string;
+  transactionHash: string;
+}
+
+export const chainSwapClaimDetailsValidator: DtoValidator<ChainSwapClaimDetailsDto> =
+  isObject<ChainSwapClaimDetailsDto>({
+    pubNonce: isHexString,
+    publicKey: isHexString,
+    transactionHash: isHexString,
+  });
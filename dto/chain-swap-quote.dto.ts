@@ -0,0 +1,14 @@
+import { DtoValidator, isNumber, isObject } from "./dto-validation";
+
+/**
+ * New quote Boltz offers for a chain swap whose lockup amount didn't match
+ */
+export interface ChainSwapQuoteDto {
+  // Amount Boltz would lock up for us
+  amount: number;
+}
+
+export const chainSwapQuoteValidator: DtoValidator<ChainSwapQuoteDto> =
+  isObject<ChainSwapQuoteDto>({
+    amount: isNumber,
+  });
@@ -1,4 +1,12 @@
-import { SwapTreeDto } from "./swap-tree.dto";
+import {
+  DtoValidator,
+  isHexString,
+  isNumber,
+  isObject,
+  isOptional,
+  isString,
+} from "./dto-validation";
+import { SwapTreeDto, swapTreeValidator } from "./swap-tree.dto";
 
 export interface ChainSwapResponseDto {
   id: string;
@@ -17,3 +25,22 @@ export interface ChainSwapDataDto {
   blindingKey?: string;
   refundAddress?: string;
 }
+
+const chainSwapDataValidator = isObject<ChainSwapDataDto>({
+  amount: isNumber,
+  swapTree: swapTreeValidator,
+  timeoutBlockHeight: isNumber,
+  serverPublicKey: isOptional(isHexString),
+  bip21: isOptional(isString),
+  lockupAddress: isOptional(isString),
+  blindingKey: isOptional(isHexString),
+  refundAddress: isOptional(isString),
+});
+
+export const chainSwapResponseValidator: DtoValidator<ChainSwapResponseDto> =
+  isObject<ChainSwapResponseDto>({
+    id: isString,
+    referralId: isOptional(isString),
+    lockupDetails: chainSwapDataValidator,
+    claimDetails: chainSwapDataValidator,
+  });
@@ -0,0 +1,49 @@
+import { ChainSwapDirection } from "../chain-swap-direction";
+import {
+  ChainSwapClaimType,
+  ChainSwapTransactionStatus,
+  WithdrawChainSwapTransaction,
+} from "../entities/withdraw-chain-swap-transaction.entity";
+
+/**
+ * Chain swap as returned by the REST API. Preimages, keys and swap trees stay in the database
+ */
+export interface ChainSwapSummaryDto {
+  swapId: string;
+  direction: ChainSwapDirection;
+  status: keyof typeof ChainSwapTransactionStatus;
+  amount: number;
+  lockupAmount: number;
+  claimAmount: number;
+  userAddress: string;
+  refundAddress: string;
+  lockupTimeoutBlockHeight: number;
+  lockupTransactionId: string | null;
+  claimTransactionId: string | null;
+  claimType: ChainSwapClaimType | null;
+  refundTransactionId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const toChainSwapSummary = (
+  swap: WithdrawChainSwapTransaction,
+): ChainSwapSummaryDto => ({
+  swapId: swap.swapId,
+  direction: swap.direction,
+  status: ChainSwapTransactionStatus[
+    swap.status
+  ] as keyof typeof ChainSwapTransactionStatus,
+  amount: swap.amount,
+  lockupAmount: swap.lockupAmount,
+  claimAmount: swap.claimAmount,
+  userAddress: swap.userAddress,
+  refundAddress: swap.refundAddress,
+  lockupTimeoutBlockHeight: swap.lockupTimeoutBlockHeight,
+  lockupTransactionId: swap.lockupTransactionId ?? null,
+  claimTransactionId: swap.claimTransactionId ?? null,
+  claimType: swap.claimType ?? null,
+  refundTransactionId: swap.refundTransactionId ?? null,
+  createdAt: swap.createdAt,
+  updatedAt: swap.updatedAt,
+});
@@ -0,0 +1,41 @@
+import {
+  DtoValidator,
+  isHexString,
+  isNumber,
+  isObject,
+  isOptional,
+  isString,
+} from "./dto-validation";
+
+export interface ChainSwapTransactionsDto {
+  userLock?: ChainSwapLockTransactionDto;
+  serverLock?: ChainSwapLockTransactionDto;
+}
+
+export interface ChainSwapLockTransactionDto {
+  transaction: {
+    id: string;
+    hex?: string;
+  };
+  timeout: {
+    blockHeight: number;
+    eta?: number;
+  };
+}
+
+const lockTransactionValidator = isObject<ChainSwapLockTransactionDto>({
+  transaction: isObject<ChainSwapLockTransactionDto["transaction"]>({
+    id: isString,
+    hex: isOptional(isHexString),
+  }),
+  timeout: isObject<ChainSwapLockTransactionDto["timeout"]>({
+    blockHeight: isNumber,
+    eta: isOptional(isNumber),
+  }),
+});
+
+export const chainSwapTransactionsValidator: DtoValidator<ChainSwapTransactionsDto> =
+  isObject<ChainSwapTransactionsDto>({
+    userLock: isOptional(lockTransactionValidator),
+    serverLock: isOptional(lockTransactionValidator),
+  });
@@ -0,0 +1,19 @@
+import {
+  DtoValidator,
+  isHexString,
+  isNumber,
+  isObject,
+  isOptional,
+} from "./dto-validation";
+
+export interface ChainTransactionDto {
+  hex: string;
+  // Missing or 0 while the transaction is in the mempool
+  confirmations?: number;
+}
+
+export const chainTransactionValidator: DtoValidator<ChainTransactionDto> =
+  isObject<ChainTransactionDto>({
+    hex: isHexString,
+    confirmations: isOptional(isNumber),
+  });
@@ -0,0 +1,76 @@
+import * as bitcoin from "bitcoinjs-lib";
+import { address as LiquidAddress } from "liquidjs-lib";
+import {
+  ChainSwapCurrency,
+  ChainSwapDirection,
+  getChainSwapCurrencies,
+} from "../chain-swap-direction";
+import {
+  ChainSwapNetwork,
+  resolveChainSwapNetworks,
+} from "../chain-swap-network";
+import {
+  DtoValidator,
+  isObject,
+  isOneOf,
+  isOptional,
+  isPositiveInteger,
+  isRefined,
+  isString,
+} from "./dto-validation";
+
+/**
+ * Body of POST /chain-swaps
+ */
+export interface CreateChainSwapRequestDto {
+  // Address on the `to` chain the swapped amount is claimed to
+  userAddress: string;
+  // Amount in sats to receive, before our claim fee
+  amount: number;
+  // Address on the `from` chain the lockup is refunded to if the swap fails
+  refundAddress: string;
+  direction?: ChainSwapDirection;
+}
+
+const isAddressOn = (
+  currency: ChainSwapCurrency,
+  network: ChainSwapNetwork,
+): DtoValidator<string> => {
+  const networks = resolveChainSwapNetworks(network);
+  return isRefined(isString, `${currency} ${network} address`, (address) => {
+    try {
+      if (currency === "BTC") {
+        bitcoin.address.toOutputScript(address, networks.bitcoin);
+      } else {
+        LiquidAddress.toOutputScript(address, networks.liquid);
+      }
+      return true;
+    } catch (error) {
+      return false;
+    }
+  });
+};
+
+/**
+ * Checks the addresses against the chains of the direction on the network of the service
+ */
+export const createChainSwapRequestValidator = (
+  network: ChainSwapNetwork,
+): DtoValidator<CreateChainSwapRequestDto> => {
+  const isDirection = isOptional(isOneOf(Object.values(ChainSwapDirection)));
+
+  return (value, path) => {
+    // The service swaps from Liquid to Bitcoin when no direction is given
+    const { direction = ChainSwapDirection.LIQUID_TO_BITCOIN } = isObject<
+      Pick<CreateChainSwapRequestDto, "direction">
+    >({ direction: isDirection })(value, path);
+    const { from, to } = getChainSwapCurrencies(direction);
+
+    return isObject<CreateChainSwapRequestDto>({
+      userAddress: isAddressOn(to, network),
+      amount: isPositiveInteger,
+      refundAddress: isAddressOn(from, network),
+      direction: isDirection,
+    })(value, path);
+  };
+};
@@ -6,4 +6,6 @@ export interface CreateChainSwapDto {
   refundPublicKey: string;
   claimPublicKey: string;
   preimageHash: string;
+  // Hash of the pair the amounts were quoted with, Boltz rejects the swap if its fees changed since
+  pairHash?: string;
 }
@@ -0,0 +1,25 @@
+import { BadRequestException, PipeTransform } from "@nestjs/common";
+import {
+  DtoValidationError,
+  DtoValidator,
+  parseDto,
+} from "./dto-validation";
+
+/**
+ * Validates request bodies with the validators of the Boltz DTOs, answering 400 with the
+ * offending field
+ */
+export class DtoValidationPipe<T> implements PipeTransform<unknown, T> {
+  constructor(private validator: DtoValidator<T>) {}
+
+  transform(value: unknown): T {
+    try {
+      return parseDto(this.validator, value);
+    } catch (error) {
+      if (error instanceof DtoValidationError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Minimal runtime validation for the responses and messages we receive from Boltz, and the
+ * requests of our REST API. Validators check the shape of a value and return it unchanged,
+ * unknown fields included
+ */
+export type DtoValidator<T> = (value: unknown, path: string) => T;
+
+export class BoltzSchemaError extends Error {
+  constructor(
+    readonly source: string,
+    readonly path: string,
+    readonly expected: string,
+    readonly received: unknown,
+  ) {
+    super(
+      `Unexpected ${source} from Boltz: expected ${expected} at '${path || "<root>"}', got ${describe(received)}`,
+    );
+    this.name = "BoltzSchemaError";
+  }
+}
+
+export class DtoValidationError extends Error {
+  constructor(
+    readonly path: string,
+    readonly expected: string,
+    readonly received: unknown,
+  ) {
+    super(
+      `Expected ${expected} at '${path || "<root>"}', got ${describe(received)}`,
+    );
+    this.name = "DtoValidationError";
+  }
+}
+
+// Thrown while walking a value, turned into a BoltzSchemaError or DtoValidationError
+class SchemaMismatch {
+  constructor(
+    readonly path: string,
+    readonly expected: string,
+    readonly received: unknown,
+  ) {}
+}
+
+const describe = (value: unknown): string => {
+  if (value === undefined) return "undefined";
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "object") return "object";
+  return `${typeof value} ${JSON.stringify(value)}`;
+};
+
+const join = (path: string, key: string | number) =>
+  typeof key === "number" ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+export const isString: DtoValidator<string> = (value, path) => {
+  if (typeof value !== "string") {
+    throw new SchemaMismatch(path, "string", value);
+  }
+  return value;
+};
+
+export const isHexString: DtoValidator<string> = (value, path) => {
+  if (typeof value !== "string" || !/^([0-9a-fA-F]{2})*$/.test(value)) {
+    throw new SchemaMismatch(path, "hex string", value);
+  }
+  return value;
+};
+
+export const isNumber: DtoValidator<number> = (value, path) => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new SchemaMismatch(path, "number", value);
+  }
+  return value;
+};
+
+export const isPositiveInteger: DtoValidator<number> = (value, path) => {
+  if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+    throw new SchemaMismatch(path, "positive integer", value);
+  }
+  return value;
+};
+
+export const isBoolean: DtoValidator<boolean> = (value, path) => {
+  if (typeof value !== "boolean") {
+    throw new SchemaMismatch(path, "boolean", value);
+  }
+  return value;
+};
+
+export const isLiteral =
+  <T extends string>(expected: T): DtoValidator<T> =>
+  (value, path) => {
+    if (value !== expected) {
+      throw new SchemaMismatch(path, `"${expected}"`, value);
+    }
+    return value as T;
+  };
+
+export const isOneOf =
+  <T extends string>(expected: readonly T[]): DtoValidator<T> =>
+  (value, path) => {
+    if (!expected.includes(value as T)) {
+      throw new SchemaMismatch(
+        path,
+        expected.map((item) => `"${item}"`).join(" | "),
+        value,
+      );
+    }
+    return value as T;
+  };
+
+/**
+ * Validator that also requires the value to pass `check`, `expected` describes what is checked
+ */
+export const isRefined =
+  <T>(
+    validator: DtoValidator<T>,
+    expected: string,
+    check: (value: T) => boolean,
+  ): DtoValidator<T> =>
+  (value, path) => {
+    if (!check(validator(value, path))) {
+      throw new SchemaMismatch(path, expected, value);
+    }
+    return value as T;
+  };
+
+export const isOptional =
+  <T>(validator: DtoValidator<T>): DtoValidator<T | undefined> =>
+  (value, path) =>
+    value === undefined || value === null ? undefined : validator(value, path);
+
+export const isArrayOf =
+  <T>(validator: DtoValidator<T>): DtoValidator<T[]> =>
+  (value, path) => {
+    if (!Array.isArray(value)) {
+      throw new SchemaMismatch(path, "array", value);
+    }
+    value.forEach((item, index) => validator(item, join(path, index)));
+    return value as T[];
+  };
+
+export const isRecordOf =
+  <T>(validator: DtoValidator<T>): DtoValidator<Record<string, T>> =>
+  (value, path) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new SchemaMismatch(path, "object", value);
+    }
+    Object.keys(value).forEach((key) => validator(value[key], join(path, key)));
+    return value as Record<string, T>;
+  };
+
+export const isObject =
+  <T>(shape: { [K in keyof T]-?: DtoValidator<T[K]> }): DtoValidator<T> =>
+  (value, path) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new SchemaMismatch(path, "object", value);
+    }
+    Object.keys(shape).forEach((key) =>
+      shape[key](value[key], join(path, key)),
+    );
+    return value as T;
+  };
+
+/**
+ * Validates a value received from Boltz, throwing a BoltzSchemaError that names the
+ * offending field when it doesn't match
+ */
+export const parseBoltzDto = <T>(
+  source: string,
+  validator: DtoValidator<T>,
+  value: unknown,
+): T => {
+  try {
+    return validator(value, "");
+  } catch (error) {
+    if (error instanceof SchemaMismatch) {
+      throw new BoltzSchemaError(
+        source,
+        error.path,
+        error.expected,
+        error.received,
+      );
+    }
+    throw error;
+  }
+};
+
+/**
+ * Validates a value we were sent, like a request body, throwing a DtoValidationError that names
+ * the offending field when it doesn't match
+ */
+export const parseDto = <T>(validator: DtoValidator<T>, value: unknown): T => {
+  try {
+    return validator(value, "");
+  } catch (error) {
+    if (error instanceof SchemaMismatch) {
+      throw new DtoValidationError(error.path, error.expected, error.received);
+    }
+    throw error;
+  }
+};
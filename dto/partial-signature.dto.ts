@@ -0,0 +1,12 @@
+import { DtoValidator, isHexString, isObject } from "./dto-validation";
+
+export interface PartialSignatureDto {
+  pubNonce: string;
+  partialSignature: string;
+}
+
+export const partialSignatureValidator: DtoValidator<PartialSignatureDto> =
+  isObject<PartialSignatureDto>({
+    pubNonce: isHexString,
+    partialSignature: isHexString,
+  });
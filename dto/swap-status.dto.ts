@@ -0,0 +1,57 @@
+import {
+  DtoValidator,
+  isArrayOf,
+  isBoolean,
+  isHexString,
+  isLiteral,
+  isObject,
+  isOptional,
+  isString,
+} from "./dto-validation";
+
+export interface SwapStatusDto {
+  status: string;
+  zeroConfRejected?: boolean;
+  failureReason?: string;
+  transaction?: {
+    id: string;
+    hex?: string;
+  };
+}
+
+export interface SwapUpdateDto extends SwapStatusDto {
+  id: string;
+}
+
+/**
+ * Message Boltz pushes on the "swap.update" WebSocket channel
+ */
+export interface SwapUpdateMessageDto {
+  event: "update";
+  channel: "swap.update";
+  args: SwapUpdateDto[];
+}
+
+const swapStatusShape = {
+  status: isString,
+  zeroConfRejected: isOptional(isBoolean),
+  failureReason: isOptional(isString),
+  transaction: isOptional(
+    isObject<SwapStatusDto["transaction"]>({
+      id: isString,
+      hex: isOptional(isHexString),
+    }),
+  ),
+};
+
+export const swapStatusValidator: DtoValidator<SwapStatusDto> =
+  isObject<SwapStatusDto>(swapStatusShape);
+
+export const swapUpdateMessageValidator: DtoValidator<SwapUpdateMessageDto> =
+  isObject<SwapUpdateMessageDto>({
+    event: isLiteral("update"),
+    channel: isLiteral("swap.update"),
+    args: isArrayOf(
+      isObject<SwapUpdateDto>({ ...swapStatusShape, id: isString }),
+    ),
+  });
@@ -1,3 +1,5 @@
+import { DtoValidator, isHexString, isNumber, isObject } from "./dto-validation";
+
 export interface SwapTreeDto {
   claimLeaf: ClaimLeaf;
   refundLeaf: RefundLeaf;
@@ -12,3 +14,14 @@ export interface RefundLeaf {
   version: number;
   output: string;
 }
+
+const leafValidator = isObject<ClaimLeaf | RefundLeaf>({
+  version: isNumber,
+  output: isHexString,
+});
+
+export const swapTreeValidator: DtoValidator<SwapTreeDto> =
+  isObject<SwapTreeDto>({
+    claimLeaf: leafValidator,
+    refundLeaf: leafValidator,
+  });
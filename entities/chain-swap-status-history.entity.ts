@@ -0,0 +1,30 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from "typeorm";
+import {
+  ChainSwapTransactionStatus,
+  WithdrawChainSwapTransaction,
+} from "./withdraw-chain-swap-transaction.entity";
+
+@Entity("chain_swap_status_history")
+export class ChainSwapStatusHistory {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => WithdrawChainSwapTransaction, (swap) => swap.statusHistory, {
+    onDelete: "CASCADE",
+  })
+  @JoinColumn({ name: "chainSwapTransactionId" })
+  swap: WithdrawChainSwapTransaction;
+
+  @Column({ type: "integer" })
+  status: ChainSwapTransactionStatus;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
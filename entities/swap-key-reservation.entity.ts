@@ -0,0 +1,14 @@
+import { Column, CreateDateColumn, Entity, PrimaryColumn } from "typeorm";
+
+/**
+ * Key index handed out for a new swap. Stored before its public keys are sent to Boltz, so an
+ * index is never used twice, not even when the swap is rejected and never stored
+ */
+@Entity("swap_key_reservations")
+export class SwapKeyReservation {
+  @PrimaryColumn({ type: "integer" })
+  keyIndex: number;
+
+  @CreateDateColumn()
+  reservedAt: Date;
+}
@@ -0,0 +1,59 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+  Unique,
+} from "typeorm";
+import { ChainSwapEventType } from "../chain-swap-events";
+
+/**
+ * Event waiting to be delivered to the webhook, written in the same transaction as the swap change
+ * it is about
+ */
+@Entity("webhook_outbox")
+@Unique("UQ_webhook_outbox_eventId", ["eventId"])
+@Index("IDX_webhook_outbox_pending", [
+  "deliveredAt",
+  "abandonedAt",
+  "nextAttemptAt",
+])
+@Index("IDX_webhook_outbox_swapId", ["swapId", "id"])
+export class WebhookOutboxEntry {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: "varchar" })
+  eventId: string;
+
+  @Column({ type: "varchar" })
+  eventType: ChainSwapEventType;
+
+  @Column({ type: "varchar" })
+  swapId: string;
+
+  // Serialized once, so every retry delivers and signs the exact same body
+  @Column({ type: "text" })
+  payload: string;
+
+  @Column({ type: "integer", default: 0 })
+  attempts: number;
+
+  // Milliseconds since the epoch, compared in queries
+  @Column({ type: "integer" })
+  nextAttemptAt: number;
+
+  @Column({ type: "datetime", nullable: true })
+  deliveredAt: Date | null;
+
+  // Set once all attempts failed; such entries are kept, but no longer retried
+  @Column({ type: "datetime", nullable: true })
+  abandonedAt: Date | null;
+
+  @Column({ type: "text", nullable: true })
+  lastError: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,130 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from "typeorm";
+import { ChainSwapDirection } from "../chain-swap-direction";
+import { ChainSwapStatusHistory } from "./chain-swap-status-history.entity";
+
+export enum ChainSwapTransactionStatus {
+  CREATED = 0,
+  LOCKUP_PENDING = 1,
+  LOCKUP_CONFIRMED = 2,
+  CLAIM_PENDING = 3,
+  CLAIM_CONFIRMED = 4,
+  LOCKUP_FAILED = 5,
+  CLAIM_FAILED = 6,
+  REFUNDED = 7,
+}
+
+// Batched claims are cooperative claims sharing one transaction with other swaps
+export type ChainSwapClaimType = "cooperative" | "scriptPath" | "batched";
+
+// Whether the new quote Boltz offered for a lockup with the wrong amount was taken;
+// "acceptFailed" when our policy took it but Boltz didn't accept, "unavailable" when Boltz had none
+export type ChainSwapQuoteDecision =
+  | "accepted"
+  | "rejected"
+  | "acceptFailed"
+  | "unavailable";
+
+@Entity("chain_swap_transactions")
+export class WithdrawChainSwapTransaction {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: "varchar", unique: true })
+  swapId: string;
+
+  @Column({ type: "varchar" })
+  direction: ChainSwapDirection;
+
+  @Column({ type: "integer", default: ChainSwapTransactionStatus.CREATED })
+  status: ChainSwapTransactionStatus;
+
+  // Amount the user receives on the claim chain
+  @Column({ type: "integer" })
+  amount: number;
+
+  @Column({ type: "integer" })
+  lockupAmount: number;
+
+  @Column({ type: "integer" })
+  claimAmount: number;
+
+  @Column({ type: "varchar" })
+  userAddress: string;
+
+  @Column({ type: "varchar" })
+  refundAddress: string;
+
+  // Index of the refund and claim keys derived for this swap
+  @Column({ type: "integer", default: 0 })
+  keyIndex: number;
+
+  @Column({ type: "varchar" })
+  claimPublicKey: string;
+
+  @Column({ type: "text" })
+  claimSwapTree: string;
+
+  @Column({ type: "varchar", nullable: true })
+  claimBlindingKey: string | null;
+
+  @Column({ type: "varchar" })
+  lockupPublicKey: string;
+
+  @Column({ type: "text" })
+  lockupSwapTree: string;
+
+  @Column({ type: "varchar", nullable: true })
+  lockupBlindingKey: string | null;
+
+  @Column({ type: "integer" })
+  lockupTimeoutBlockHeight: number;
+
+  @Column({ type: "varchar" })
+  preimage: string;
+
+  @Column({ type: "varchar" })
+  preimageHash: string;
+
+  @Column({ type: "varchar", nullable: true })
+  lockupTransactionId: string | null;
+
+  @Column({ type: "varchar", nullable: true })
+  claimTransactionId: string | null;
+
+  @Column({ type: "varchar", nullable: true })
+  refundTransactionId: string | null;
+
+  @Column({ type: "varchar", nullable: true })
+  claimType: ChainSwapClaimType | null;
+
+  // Fee rate in sat/vbyte of the latest claim transaction
+  @Column({ type: "real", nullable: true })
+  claimFeeRate: number | null;
+
+  // Claim amount Boltz offered after the lockup amount didn't match
+  @Column({ type: "integer", nullable: true })
+  quotedClaimAmount: number | null;
+
+  @Column({ type: "varchar", nullable: true })
+  quoteDecision: ChainSwapQuoteDecision | null;
+
+  // Why Boltz had no new quote
+  @Column({ type: "varchar", nullable: true })
+  quoteDecisionReason: string | null;
+
+  @OneToMany(() => ChainSwapStatusHistory, (history) => history.swap)
+  statusHistory: ChainSwapStatusHistory[];
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
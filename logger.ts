@@ -0,0 +1,148 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Fields added to a log line, like the swap id and status it is about
+ */
+export type LogContext = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, context?: LogContext): void;
+  info(message: string, context?: LogContext): void;
+  warn(message: string, context?: LogContext): void;
+  error(message: string, context?: LogContext): void;
+  // Logger that adds the context to every line
+  child(context: LogContext): Logger;
+}
+
+export interface JsonLoggerOptions {
+  // Lines below this level are dropped
+  level?: LogLevel;
+  // Secrets are only ever written when explicitly turned off, e.g. to debug a regtest swap
+  redact?: boolean;
+  // Fields whose names match are redacted, on top of the default secrets
+  redactFields?: RegExp[];
+  write?: (line: string) => void;
+}
+
+const levels: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+// Preimages, private keys (including the private blinding keys of Liquid swaps), seeds and partial signatures
+const defaultRedactedFields = [
+  /^preimage$/i,
+  /privateKey$/i,
+  /^(claim|lockup)?BlindingKey$/i,
+  /^(mnemonic|xprv|seed)$/i,
+  /^partialSignature$/i,
+];
+
+export const REDACTED = "[redacted]";
+
+export class JsonLogger implements Logger {
+  private level: LogLevel;
+  private redact: boolean;
+  private redactFields: RegExp[];
+  private write: (line: string) => void;
+
+  constructor(
+    options: JsonLoggerOptions = {},
+    private context: LogContext = {},
+  ) {
+    this.level = options.level ?? "info";
+    this.redact = options.redact ?? true;
+    this.redactFields = [
+      ...defaultRedactedFields,
+      ...(options.redactFields ?? []),
+    ];
+    this.write =
+      options.write ?? ((line) => process.stdout.write(line + "\n"));
+  }
+
+  debug(message: string, context?: LogContext) {
+    this.log("debug", message, context);
+  }
+
+  info(message: string, context?: LogContext) {
+    this.log("info", message, context);
+  }
+
+  warn(message: string, context?: LogContext) {
+    this.log("warn", message, context);
+  }
+
+  error(message: string, context?: LogContext) {
+    this.log("error", message, context);
+  }
+
+  child(context: LogContext): Logger {
+    return new JsonLogger(
+      {
+        level: this.level,
+        redact: this.redact,
+        redactFields: this.redactFields,
+        write: this.write,
+      },
+      { ...this.context, ...context },
+    );
+  }
+
+  private log(level: LogLevel, message: string, context: LogContext = {}) {
+    if (levels[level] < levels[this.level]) {
+      return;
+    }
+
+    const fields = this.serialize({ ...this.context, ...context }, 0);
+    this.write(
+      JSON.stringify({
+        time: new Date().toISOString(),
+        level,
+        message,
+        ...(fields as LogContext),
+      }),
+    );
+  }
+
+  /**
+   * Turns the context into plain JSON, with buffers as hex and errors with their stack,
+   * and redacts every field named like a secret no matter how deeply it is nested
+   */
+  private serialize(value: unknown, depth: number): unknown {
+    if (Buffer.isBuffer(value)) {
+      return value.toString("hex");
+    }
+    if (value instanceof Error) {
+      return {
+        message: value.message,
+        stack: value.stack,
+        // Boltz rejects requests with a body explaining why
+        response: this.serialize(
+          (value as { response?: { data?: unknown } }).response?.data,
+          depth + 1,
+        ),
+      };
+    }
+    if (value === null || typeof value !== "object") {
+      return value;
+    }
+    // Guards against cycles, e.g. in entities with relations
+    if (depth > 8) {
+      return "[nested]";
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.serialize(item, depth + 1));
+    }
+
+    const serialized: Record<string, unknown> = {};
+    Object.keys(value).forEach((key) => {
+      serialized[key] =
+        this.redact && this.redactFields.some((field) => field.test(key))
+          ? REDACTED
+          : this.serialize((value as Record<string, unknown>)[key], depth + 1);
+    });
+    return serialized;
+  }
+}
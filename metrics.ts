@@ -0,0 +1,325 @@
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { ChainSwapDirection } from "./chain-swap-direction";
+
+export type MetricLabels = Record<string, string>;
+
+type MetricType = "counter" | "gauge" | "histogram";
+
+const escapeLabelValue = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+
+const formatLabels = (labels: MetricLabels) => {
+  const pairs = Object.keys(labels).map(
+    (name) => `${name}="${escapeLabelValue(labels[name])}"`,
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+};
+
+/**
+ * Series of a metric, keyed by their label values in the order of the metric's label names
+ */
+abstract class Metric<T> {
+  protected series = new Map<string, { labels: MetricLabels; value: T }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: MetricType,
+    protected labelNames: string[],
+  ) {}
+
+  reset() {
+    this.series.clear();
+  }
+
+  format(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...Array.from(this.series.values()).flatMap(({ labels, value }) =>
+        this.formatSeries(labels, value),
+      ),
+    ];
+  }
+
+  protected abstract formatSeries(labels: MetricLabels, value: T): string[];
+
+  protected getSeries(labels: MetricLabels, initial: () => T) {
+    const unknown = Object.keys(labels).filter(
+      (name) => !this.labelNames.includes(name),
+    );
+    if (unknown.length > 0) {
+      throw new Error(
+        `Metric ${this.name} has no labels: ${unknown.join(", ")}`,
+      );
+    }
+
+    const ordered: MetricLabels = {};
+    this.labelNames.forEach((name) => (ordered[name] = labels[name] ?? ""));
+    const key = JSON.stringify(ordered);
+
+    if (!this.series.has(key)) {
+      this.series.set(key, { labels: ordered, value: initial() });
+    }
+    return this.series.get(key);
+  }
+}
+
+export class Counter extends Metric<number> {
+  constructor(name: string, help: string, labelNames: string[] = []) {
+    super(name, help, "counter", labelNames);
+  }
+
+  inc(labels: MetricLabels = {}, value = 1) {
+    if (value < 0) {
+      throw new Error(`Counter ${this.name} can only increase`);
+    }
+    this.getSeries(labels, () => 0).value += value;
+  }
+
+  protected formatSeries(labels: MetricLabels, value: number) {
+    return [`${this.name}${formatLabels(labels)} ${value}`];
+  }
+}
+
+export class Gauge extends Metric<number> {
+  constructor(name: string, help: string, labelNames: string[] = []) {
+    super(name, help, "gauge", labelNames);
+  }
+
+  set(labels: MetricLabels, value: number) {
+    this.getSeries(labels, () => 0).value = value;
+  }
+
+  protected formatSeries(labels: MetricLabels, value: number) {
+    return [`${this.name}${formatLabels(labels)} ${value}`];
+  }
+}
+
+interface HistogramValue {
+  // Observations per bucket, not cumulative
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric<HistogramValue> {
+  constructor(
+    name: string,
+    help: string,
+    labelNames: string[] = [],
+    private buckets: number[] = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  ) {
+    super(name, help, "histogram", labelNames);
+  }
+
+  observe(labels: MetricLabels, value: number) {
+    const series = this.getSeries(labels, () => ({
+      buckets: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    })).value;
+
+    const bucket = this.buckets.findIndex((bound) => value <= bound);
+    if (bucket !== -1) {
+      series.buckets[bucket]++;
+    }
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Observes the seconds until the returned function is called
+   */
+  startTimer(labels: MetricLabels = {}) {
+    const startedAt = Date.now();
+    return (endLabels: MetricLabels = {}) =>
+      this.observe({ ...labels, ...endLabels }, (Date.now() - startedAt) / 1000);
+  }
+
+  protected formatSeries(labels: MetricLabels, value: HistogramValue) {
+    let cumulative = 0;
+    return [
+      ...this.buckets.map((bound, index) => {
+        cumulative += value.buckets[index];
+        return `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${cumulative}`;
+      }),
+      `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${value.count}`,
+      `${this.name}_sum${formatLabels(labels)} ${value.sum}`,
+      `${this.name}_count${formatLabels(labels)} ${value.count}`,
+    ];
+  }
+}
+
+/**
+ * Holds metrics and renders them in the Prometheus text exposition format. Collectors run before
+ * every scrape, for values that are cheaper to read on demand than to keep up to date
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric<unknown>>();
+  private collectors: (() => Promise<void>)[] = [];
+
+  register<T extends Metric<unknown>>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+
+  addCollector(collector: () => Promise<void>) {
+    this.collectors.push(collector);
+  }
+
+  async render(): Promise<string> {
+    await Promise.all(this.collectors.map((collect) => collect()));
+
+    return (
+      Array.from(this.metrics.values())
+        .flatMap((metric) => metric.format())
+        .join("\n") + "\n"
+    );
+  }
+}
+
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/**
+ * Metrics of the chain swap lifecycle, the Boltz API and WebSocket, and the fees we pay
+ */
+export class ChainSwapMetrics {
+  readonly swapsCreated: Counter;
+  readonly swapsCompleted: Counter;
+  readonly swapsFailed: Counter;
+  readonly swaps: Gauge;
+  readonly statusTransitions: Counter;
+  readonly lockupToClaimSeconds: Histogram;
+  readonly boltzApiRequestSeconds: Histogram;
+  readonly boltzApiErrors: Counter;
+  readonly webSocketReconnects: Counter;
+  readonly feesPaid: Counter;
+
+  constructor(readonly registry: MetricsRegistry = new MetricsRegistry()) {
+    this.swapsCreated = registry.register(
+      new Counter(
+        "chain_swaps_created_total",
+        "Chain swaps created with Boltz",
+        ["direction"],
+      ),
+    );
+    this.swapsCompleted = registry.register(
+      new Counter(
+        "chain_swaps_completed_total",
+        "Chain swaps whose claim confirmed",
+        ["direction"],
+      ),
+    );
+    this.swapsFailed = registry.register(
+      new Counter(
+        "chain_swaps_failed_total",
+        "Chain swaps whose lockup or claim failed",
+        ["direction", "status"],
+      ),
+    );
+    this.swaps = registry.register(
+      new Gauge("chain_swaps", "Chain swaps per status in the database", [
+        "direction",
+        "status",
+      ]),
+    );
+    this.statusTransitions = registry.register(
+      new Counter(
+        "chain_swap_status_transitions_total",
+        "Status changes of chain swaps",
+        ["from", "to"],
+      ),
+    );
+    this.lockupToClaimSeconds = registry.register(
+      new Histogram(
+        "chain_swap_lockup_to_claim_seconds",
+        "Time from the confirmed user lockup to the confirmed claim",
+        ["direction"],
+        [60, 300, 600, 1_800, 3_600, 7_200, 21_600, 86_400],
+      ),
+    );
+    this.boltzApiRequestSeconds = registry.register(
+      new Histogram(
+        "boltz_api_request_duration_seconds",
+        "Latency of Boltz API requests",
+        ["method", "endpoint", "status"],
+      ),
+    );
+    this.boltzApiErrors = registry.register(
+      new Counter(
+        "boltz_api_errors_total",
+        "Boltz API requests that failed, status 0 being network errors",
+        ["method", "endpoint", "status"],
+      ),
+    );
+    this.webSocketReconnects = registry.register(
+      new Counter(
+        "boltz_websocket_reconnects_total",
+        "Reconnects of the Boltz WebSocket",
+      ),
+    );
+    this.feesPaid = registry.register(
+      new Counter(
+        "chain_swap_fees_paid_sats_total",
+        "Miner and Boltz fees of created chain swaps in sats",
+        ["direction", "type"],
+      ),
+    );
+  }
+
+  recordFees(
+    direction: ChainSwapDirection,
+    fees: { minerFees: number; boltzFee: number },
+  ) {
+    this.feesPaid.inc({ direction, type: "miner" }, fees.minerFees);
+    this.feesPaid.inc({ direction, type: "boltz" }, fees.boltzFee);
+  }
+}
+
+/**
+ * Serves the registry at GET /metrics for Prometheus to scrape
+ */
+export class MetricsServer {
+  private server?: Server;
+
+  constructor(private registry: MetricsRegistry) {}
+
+  async start(port = 0, host = "127.0.0.1"): Promise<string> {
+    this.server = createServer((request, response) => {
+      if (request.method !== "GET" || request.url?.split("?")[0] !== "/metrics") {
+        response.writeHead(404).end();
+        return;
+      }
+
+      this.registry.render().then(
+        (body) => {
+          response.writeHead(200, { "Content-Type": PROMETHEUS_CONTENT_TYPE });
+          response.end(body);
+        },
+        (error) => {
+          response.writeHead(500).end(String(error?.message ?? error));
+        },
+      );
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(port, host, () => resolve());
+    });
+    const address = this.server.address() as AddressInfo;
+    return `http://${host}:${address.port}/metrics`;
+  }
+
+  async stop() {
+    if (!this.server) {
+      return;
+    }
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+    this.server = undefined;
+  }
+}
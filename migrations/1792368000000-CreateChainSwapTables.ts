@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class CreateChainSwapTables1792368000000 implements MigrationInterface {
+  name = "CreateChainSwapTables1792368000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "chain_swap_transactions" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "swapId" varchar NOT NULL, "direction" varchar NOT NULL, "status" integer NOT NULL DEFAULT (0), "amount" integer NOT NULL, "lockupAmount" integer NOT NULL, "claimAmount" integer NOT NULL, "userAddress" varchar NOT NULL, "refundAddress" varchar NOT NULL, "claimPublicKey" varchar NOT NULL, "claimSwapTree" text NOT NULL, "claimBlindingKey" varchar, "lockupPublicKey" varchar NOT NULL, "lockupSwapTree" text NOT NULL, "lockupBlindingKey" varchar, "lockupTimeoutBlockHeight" integer NOT NULL, "preimage" varchar NOT NULL, "preimageHash" varchar NOT NULL, "lockupTransactionId" varchar, "claimTransactionId" varchar, "refundTransactionId" varchar, "claimType" varchar, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "UQ_95f6f1346fa762b9c1b6e1ce5d9" UNIQUE ("swapId"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "chain_swap_status_history" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "status" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "chainSwapTransactionId" integer, CONSTRAINT "FK_292c03a1dfc420d376959855b98" FOREIGN KEY ("chainSwapTransactionId") REFERENCES "chain_swap_transactions" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "chain_swap_status_history"`);
+    await queryRunner.query(`DROP TABLE "chain_swap_transactions"`);
+  }
+}
@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddSwapKeyIndex1792454400000 implements MigrationInterface {
+  name = "AddSwapKeyIndex1792454400000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "chain_swap_transactions" ADD COLUMN "keyIndex" integer NOT NULL DEFAULT (0)`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "chain_swap_transactions" DROP COLUMN "keyIndex"`,
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddQuoteDecision1792540800000 implements MigrationInterface {
+  name = "AddQuoteDecision1792540800000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "chain_swap_transactions" ADD COLUMN "quotedClaimAmount" integer`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "chain_swap_transactions" ADD COLUMN "quoteDecision" varchar`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "chain_swap_transactions" DROP COLUMN "quoteDecision"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "chain_swap_transactions" DROP COLUMN "quotedClaimAmount"`,
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddClaimFeeRate1792627200000 implements MigrationInterface {
+  name = "AddClaimFeeRate1792627200000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "chain_swap_transactions" ADD COLUMN "claimFeeRate" real`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "chain_swap_transactions" DROP COLUMN "claimFeeRate"`,
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class CreateWebhookOutbox1792713600000 implements MigrationInterface {
+  name = "CreateWebhookOutbox1792713600000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "webhook_outbox" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "eventId" varchar NOT NULL, "eventType" varchar NOT NULL, "swapId" varchar NOT NULL, "payload" text NOT NULL, "attempts" integer NOT NULL DEFAULT (0), "nextAttemptAt" integer NOT NULL, "deliveredAt" datetime, "abandonedAt" datetime, "lastError" text, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "UQ_webhook_outbox_eventId" UNIQUE ("eventId"))`,
+    );
+    // Pending entries are looked up by when they are due
+    await queryRunner.query(
+      `CREATE INDEX "IDX_webhook_outbox_pending" ON "webhook_outbox" ("deliveredAt", "abandonedAt", "nextAttemptAt")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_webhook_outbox_pending"`);
+    await queryRunner.query(`DROP TABLE "webhook_outbox"`);
+  }
+}
@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddWebhookOutboxSwapIndex1792800000000
+  implements MigrationInterface
+{
+  name = "AddWebhookOutboxSwapIndex1792800000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Due entries are checked for earlier pending entries of the same swap
+    await queryRunner.query(
+      `CREATE INDEX "IDX_webhook_outbox_swapId" ON "webhook_outbox" ("swapId", "id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_webhook_outbox_swapId"`);
+  }
+}
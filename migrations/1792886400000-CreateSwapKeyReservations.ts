@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class CreateSwapKeyReservations1792886400000
+  implements MigrationInterface
+{
+  name = "CreateSwapKeyReservations1792886400000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "swap_key_reservations" ("keyIndex" integer PRIMARY KEY NOT NULL, "reservedAt" datetime NOT NULL DEFAULT (datetime('now')))`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "swap_key_reservations"`);
+  }
+}
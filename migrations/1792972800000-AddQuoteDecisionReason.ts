@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddQuoteDecisionReason1792972800000 implements MigrationInterface {
+  name = "AddQuoteDecisionReason1792972800000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "chain_swap_transactions" ADD COLUMN "quoteDecisionReason" varchar`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "chain_swap_transactions" DROP COLUMN "quoteDecisionReason"`,
+    );
+  }
+}
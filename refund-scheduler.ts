@@ -0,0 +1,104 @@
+import { BoltzClient } from "./boltz-client";
+import { ChainSwapCurrency } from "./chain-swap-direction";
+import { JsonLogger, Logger } from "./logger";
+
+interface ScheduledRefund {
+  currency: ChainSwapCurrency;
+  timeoutBlockHeight: number;
+  refund: () => Promise<void>;
+}
+
+/**
+ * Polls the chain tips and runs the unilateral refund of every scheduled
+ * swap once its lockup timeout has been reached
+ */
+export class RefundScheduler {
+  private scheduledRefunds = new Map<string, ScheduledRefund>();
+  private pollTimer?: NodeJS.Timeout;
+  private isChecking = false;
+
+  constructor(
+    private boltzClient: BoltzClient,
+    private logger: Logger = new JsonLogger(),
+    private pollIntervalMs = 60_000,
+  ) {}
+
+  schedule(
+    swapId: string,
+    currency: ChainSwapCurrency,
+    timeoutBlockHeight: number,
+    refund: () => Promise<void>,
+  ) {
+    this.logger.info("Scheduling unilateral refund", {
+      swapId,
+      currency,
+      timeoutBlockHeight,
+    });
+    this.scheduledRefunds.set(swapId, { currency, timeoutBlockHeight, refund });
+
+    if (!this.pollTimer) {
+      this.pollTimer = setInterval(
+        () => this.checkTimeouts(),
+        this.pollIntervalMs,
+      );
+    }
+  }
+
+  cancel(swapId: string) {
+    if (this.scheduledRefunds.delete(swapId)) {
+      this.logger.info("Cancelled unilateral refund", { swapId });
+    }
+
+    if (this.scheduledRefunds.size === 0) {
+      this.stop();
+    }
+  }
+
+  stop() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  private async checkTimeouts() {
+    // A slow refund must not be started a second time by the next tick
+    if (this.isChecking) {
+      return;
+    }
+    this.isChecking = true;
+
+    try {
+      const heights = await this.boltzClient.getChainHeights();
+
+      for (const [swapId, scheduledRefund] of Array.from(
+        this.scheduledRefunds.entries(),
+      )) {
+        const height = heights[scheduledRefund.currency];
+        if (height < scheduledRefund.timeoutBlockHeight) {
+          continue;
+        }
+
+        this.logger.info("Swap timeout reached", {
+          swapId,
+          currency: scheduledRefund.currency,
+          height,
+        });
+
+        try {
+          await scheduledRefund.refund();
+          this.cancel(swapId);
+        } catch (error) {
+          this.logger.error(
+            "Unilateral refund failed - retrying on next block",
+            { swapId, error },
+          );
+        }
+      }
+    } catch (error) {
+      this.logger.error("Failed to check refund timeouts", { error });
+    } finally {
+      this.isChecking = false;
+    }
+  }
+}
@@ -0,0 +1,344 @@
+import { appendFileSync, readFileSync, writeFileSync } from "fs";
+import { Transaction as LiquidTransaction } from "liquidjs-lib";
+import { JsonLogger, Logger } from "./logger";
+
+// Service methods whose calls are recorded, so a replay can make them again
+export type RecordedCallName =
+  | "startBoltzChainSwapWithListeners"
+  | "quoteBySendAmount"
+  | "quoteByReceiveAmount";
+
+export type RecordedSessionEntry =
+  | { type: "session"; version: 1; startedAt: string }
+  // Seed and next key index of the service, from which every swap key is derived
+  | { type: "keys"; mnemonic?: string; xprv?: string; nextKeyIndex: number }
+  // Preimages and MuSig2 session ids, in the order they were drawn
+  | { type: "random"; hex: string }
+  // Liquid transactions as they were built, blinding draws randomness of its own
+  | { type: "liquidTransaction"; hex: string }
+  | { type: "call"; name: RecordedCallName; args: unknown[] }
+  // Status 0 is a request that never got a response
+  | {
+      type: "http";
+      method: string;
+      path: string;
+      request?: unknown;
+      status: number;
+      response: unknown;
+    }
+  | { type: "ws"; direction: "sent" | "received"; message: unknown };
+
+// Milliseconds since the recording started
+export type RecordedEntry = RecordedSessionEntry & { at: number };
+
+/**
+ * Hooks into BoltzClient and BoltzWebsocketClient, either of which is set when a session is recorded or replayed
+ */
+export interface BoltzSession {
+  recorder?: SessionRecorder;
+  replayer?: SessionReplayer;
+}
+
+/**
+ * Appends everything exchanged with Boltz to a JSONL file. The recording contains the seed of
+ * the swap keys and the preimages, so it has to be kept as secret as the seed itself
+ */
+export class SessionRecorder {
+  private startedAt = Date.now();
+
+  constructor(
+    private path: string,
+    private logger: Logger = new JsonLogger(),
+  ) {
+    writeFileSync(path, "");
+    this.record({
+      type: "session",
+      version: 1,
+      startedAt: new Date(this.startedAt).toISOString(),
+    });
+    this.logger.info("Recording Boltz session", { path });
+  }
+
+  record(entry: RecordedSessionEntry) {
+    // Written synchronously, so the file reflects the order things happened in even if the process crashes
+    appendFileSync(
+      this.path,
+      JSON.stringify({ ...entry, at: Date.now() - this.startedAt }) + "\n",
+    );
+  }
+}
+
+/**
+ * Plays a recording back in the order it was recorded: responses are served to requests as they are
+ * made, and a received WebSocket frame is only delivered once every request, sent frame and call
+ * recorded before it was replayed. Entries the replay never reaches are skipped after `stallTimeoutMs`,
+ * while a request or transaction that differs from the recording fails the replay
+ */
+export class SessionReplayer {
+  private entries: RecordedEntry[];
+  private replayed: boolean[];
+  private cursor = 0;
+  private randomEntries: Extract<RecordedEntry, { type: "random" }>[];
+  private liquidTransactionEntries: Extract<
+    RecordedEntry,
+    { type: "liquidTransaction" }
+  >[];
+  private frameListener?: (message: unknown) => void;
+  private callWaiters = new Map<number, () => void>();
+  private stallTimer?: NodeJS.Timeout;
+  private stopped = false;
+  private resolveFinished: () => void;
+  private rejectFinished: (error: Error) => void;
+  // Rejects once the replay diverged from the recording
+  readonly finished = new Promise<void>((resolve, reject) => {
+    this.resolveFinished = resolve;
+    this.rejectFinished = reject;
+  });
+
+  constructor(
+    path: string,
+    private logger: Logger = new JsonLogger(),
+    private stallTimeoutMs = 5_000,
+  ) {
+    this.entries = readFileSync(path, "utf8")
+      .split("\n")
+      .filter((line) => line.trim() !== "")
+      .map((line) => JSON.parse(line));
+    // Only requests, frames and calls are replayed in order
+    this.replayed = this.entries.map(
+      (entry) =>
+        entry.type !== "http" && entry.type !== "ws" && entry.type !== "call",
+    );
+    this.randomEntries = this.entries.filter(
+      (entry): entry is Extract<RecordedEntry, { type: "random" }> =>
+        entry.type === "random",
+    );
+    this.liquidTransactionEntries = this.entries.filter(
+      (entry): entry is Extract<RecordedEntry, { type: "liquidTransaction" }> =>
+        entry.type === "liquidTransaction",
+    );
+    // Awaited by whoever drives the replay, a divergence must not go unhandled before that
+    this.finished.catch(() => undefined);
+    this.logger.info("Replaying Boltz session", {
+      path,
+      entries: this.entries.length,
+    });
+  }
+
+  getKeys() {
+    const keys = this.entries.find(
+      (entry): entry is Extract<RecordedEntry, { type: "keys" }> =>
+        entry.type === "keys",
+    );
+    if (!keys) {
+      throw new Error("Recording contains no key material");
+    }
+    return keys;
+  }
+
+  getCalls() {
+    return this.entries
+      .map((entry, index) => ({ entry, index }))
+      .filter(({ entry }) => entry.type === "call")
+      .map(({ entry, index }) => ({
+        index,
+        ...(entry as Extract<RecordedEntry, { type: "call" }>),
+      }));
+  }
+
+  nextRandom(size: number): Buffer {
+    const entry = this.randomEntries.shift();
+    if (!entry) {
+      throw new Error("Recording has no random bytes left");
+    }
+
+    const bytes = Buffer.from(entry.hex, "hex");
+    if (bytes.length !== size) {
+      throw this.diverge(
+        `drew ${size} random bytes, recording has ${bytes.length}`,
+      );
+    }
+    return bytes;
+  }
+
+  /**
+   * The recorded counterpart of a Liquid transaction the replay built, which has to spend the same
+   * outputs and pay the same scripts
+   */
+  replayLiquidTransaction(built: LiquidTransaction): LiquidTransaction {
+    const entry = this.liquidTransactionEntries.shift();
+    if (!entry) {
+      throw this.diverge("recording has no Liquid transactions left");
+    }
+
+    const recorded = LiquidTransaction.fromHex(entry.hex);
+    const shape = (transaction: LiquidTransaction) =>
+      JSON.stringify([
+        transaction.ins.map(
+          (input) =>
+            `${Buffer.from(input.hash).reverse().toString("hex")}:${input.index}`,
+        ),
+        transaction.outs.map((output) => output.script.toString("hex")),
+      ]);
+    if (shape(built) !== shape(recorded)) {
+      throw this.diverge(
+        `built Liquid transaction differs from recorded ${recorded.getId()}`,
+      );
+    }
+    return recorded;
+  }
+
+  /**
+   * Resolves once everything recorded before the call was replayed, rejects if the replay diverged
+   */
+  reachCall(index: number): Promise<void> {
+    const reached = new Promise<void>((resolve) => {
+      // Skipped while the replay was stalled
+      if (index < this.cursor) {
+        resolve();
+        return;
+      }
+      this.callWaiters.set(index, () => {
+        this.markReplayed(index);
+        resolve();
+      });
+      this.advance();
+    });
+    return Promise.race([reached, this.finished]);
+  }
+
+  replayHttp(method: string, path: string, request: unknown) {
+    const index = this.findNext(
+      (entry) =>
+        entry.type === "http" && entry.method === method && entry.path === path,
+    );
+    if (index === undefined) {
+      throw new Error(`Replay diverged: ${method} ${path} is not in the recording`);
+    }
+
+    const entry = this.entries[index] as Extract<RecordedEntry, { type: "http" }>;
+    if (JSON.stringify(entry.request) !== JSON.stringify(request)) {
+      throw this.diverge(
+        `request body of ${method} ${path} differs from entry ${index}`,
+      );
+    }
+
+    this.markReplayed(index);
+    return { status: entry.status, response: entry.response };
+  }
+
+  replayWebSocketSend(message: unknown) {
+    const index = this.findNext(
+      (entry) => entry.type === "ws" && entry.direction === "sent",
+    );
+    if (index === undefined) {
+      this.logger.warn("Replay: sent WebSocket frame is not in the recording");
+      return;
+    }
+
+    const entry = this.entries[index] as Extract<RecordedEntry, { type: "ws" }>;
+    if (JSON.stringify(entry.message) !== JSON.stringify(message)) {
+      this.logger.warn(
+        "Replay: sent WebSocket frame differs from the recording",
+        { entry: index },
+      );
+    }
+    this.markReplayed(index);
+  }
+
+  onWebSocketFrame(listener: (message: unknown) => void) {
+    this.frameListener = listener;
+    this.advance();
+  }
+
+  stop() {
+    this.stopped = true;
+    clearTimeout(this.stallTimer);
+    this.frameListener = undefined;
+  }
+
+  /**
+   * Stops the replay and fails it, anything replayed after a divergence can't be trusted
+   */
+  private diverge(reason: string): Error {
+    const error = new Error(`Replay diverged: ${reason}`);
+    this.logger.error("Replay diverged from the recording", { reason });
+    this.stop();
+    this.rejectFinished(error);
+    return error;
+  }
+
+  private findNext(matches: (entry: RecordedEntry) => boolean) {
+    for (let index = this.cursor; index < this.entries.length; index++) {
+      if (!this.replayed[index] && matches(this.entries[index])) {
+        return index;
+      }
+    }
+    return undefined;
+  }
+
+  private markReplayed(index: number) {
+    this.replayed[index] = true;
+    // Received frames waiting for this entry can go out now, but not from within the request that replayed it
+    setImmediate(() => this.advance());
+  }
+
+  private advance() {
+    if (this.stopped) {
+      return;
+    }
+    const cursorBefore = this.cursor;
+
+    while (this.cursor < this.entries.length) {
+      const entry = this.entries[this.cursor];
+
+      if (this.replayed[this.cursor]) {
+        this.cursor++;
+        continue;
+      }
+      if (
+        entry.type === "ws" &&
+        entry.direction === "received" &&
+        this.frameListener
+      ) {
+        this.replayed[this.cursor] = true;
+        this.cursor++;
+        this.frameListener(entry.message);
+        continue;
+      }
+      if (entry.type === "call" && this.callWaiters.has(this.cursor)) {
+        const startCall = this.callWaiters.get(this.cursor);
+        this.callWaiters.delete(this.cursor);
+        startCall();
+        continue;
+      }
+      break;
+    }
+
+    if (this.cursor >= this.entries.length) {
+      clearTimeout(this.stallTimer);
+      this.resolveFinished();
+      return;
+    }
+
+    if (this.cursor !== cursorBefore || !this.stallTimer) {
+      clearTimeout(this.stallTimer);
+      this.stallTimer = setTimeout(() => this.skipStalledEntry(), this.stallTimeoutMs);
+    }
+  }
+
+  private skipStalledEntry() {
+    this.stallTimer = undefined;
+    const entry = this.entries[this.cursor];
+    if (!entry) {
+      return;
+    }
+
+    this.logger.warn("Replay diverged: entry was never reached, skipping it", {
+      index: this.cursor,
+      entry,
+    });
+    this.replayed[this.cursor] = true;
+    this.advance();
+  }
+}
@@ -0,0 +1,67 @@
+import { BIP32Factory, BIP32Interface } from "bip32";
+import * as bip39 from "bip39";
+import * as bitcoin from "bitcoinjs-lib";
+import { ECPairFactory, ECPairInterface } from "ecpair";
+import * as ecc from "tiny-secp256k1";
+
+export enum SwapKeyType {
+  REFUND = 0,
+  CLAIM = 1,
+}
+
+/**
+ * Derives the keys of every swap from a single seed, so claims and refunds stay
+ * possible after a restart.
+ *
+ * Keys are derived at `m/7259'/0'/0'/<type>/<index>`, where `type` is 0 for refund
+ * keys and 1 for claim keys, and `index` is the key index stored with the swap.
+ * The purpose is one no BIP assigns, so a wallet built on the same seed never
+ * derives a swap key as one of its receive or change keys.
+ */
+export class SwapKeyProvider {
+  static readonly DERIVATION_PATH = "m/7259'/0'/0'";
+
+  private accountNode: BIP32Interface;
+
+  private constructor(rootNode: BIP32Interface) {
+    this.accountNode = rootNode.derivePath(SwapKeyProvider.DERIVATION_PATH);
+  }
+
+  static fromMnemonic(
+    mnemonic: string,
+    network: bitcoin.networks.Network,
+    passphrase?: string,
+  ): SwapKeyProvider {
+    if (!bip39.validateMnemonic(mnemonic)) {
+      throw new Error("Invalid BIP39 mnemonic");
+    }
+
+    return new SwapKeyProvider(
+      BIP32Factory(ecc).fromSeed(
+        bip39.mnemonicToSeedSync(mnemonic, passphrase),
+        network,
+      ),
+    );
+  }
+
+  static fromXprv(
+    xprv: string,
+    network: bitcoin.networks.Network,
+  ): SwapKeyProvider {
+    const rootNode = BIP32Factory(ecc).fromBase58(xprv, network);
+    if (rootNode.isNeutered()) {
+      throw new Error("Extended key has no private key");
+    }
+
+    return new SwapKeyProvider(rootNode);
+  }
+
+  static generateMnemonic(): string {
+    return bip39.generateMnemonic(256);
+  }
+
+  getKeyPair(type: SwapKeyType, index: number): ECPairInterface {
+    const node = this.accountNode.derive(type).derive(index);
+    return ECPairFactory(ecc).fromPrivateKey(node.privateKey);
+  }
+}
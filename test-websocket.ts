@@ -1,26 +1,160 @@
+import * as assert from "assert";
+import { randomBytes } from "crypto";
+import { readFileSync, unlinkSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import * as bitcoin from "bitcoinjs-lib";
+import { Transaction as LiquidTransaction } from "liquidjs-lib";
+import zkpInit from "@vulpemventures/secp256k1-zkp";
+import { ECPairFactory } from "ecpair";
+import * as ecc from "tiny-secp256k1";
+import {
+  Musig,
+  Scripts,
+  SwapTreeSerializer,
+  swapTree as createSwapTree,
+  TaprootUtils,
+} from "boltz-core";
+import { TaprootUtils as LiquidTaprootUtils } from "boltz-core/dist/lib/liquid";
 import { ChainToChainSwapService } from "./chain-to-chain-swap.service";
+import { BoltzWebsocketClient } from "./boltz-websocket-client";
+import { quoteReceiveAmount, quoteSendAmount } from "./chain-swap-quote";
+import { ChainPairDto } from "./dto/chain-pairs.dto";
+import {
+  ChainSwapDirection,
+  getChainSwapCurrencies,
+} from "./chain-swap-direction";
+import {
+  BoltzSimulator,
+  simulatorRefusedReconnects,
+  simulatorFeeRates,
+  SimulatorScenarioName,
+  simulatorScenarios,
+  SimulatorSwapCorruption,
+} from "./boltz-simulator";
+import { createDataSource } from "./data-source";
+import {
+  DetectSwapDiagnosticsInput,
+  diagnoseDetectSwap,
+  formatDetectSwapDiagnosis,
+} from "./detect-swap-diagnostics";
+import { JsonLogger, REDACTED } from "./logger";
+import { MetricsRegistry, MetricsServer } from "./metrics";
+import { createServer } from "http";
+import { AddressInfo } from "net";
+import { ChainSwapEvent } from "./chain-swap-events";
+import {
+  signWebhookPayload,
+  WEBHOOK_ID_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from "./webhook-dispatcher";
+import { WebhookOutboxEntry } from "./entities/webhook-outbox-entry.entity";
+import { HttpException } from "@nestjs/common";
+import { Test } from "@nestjs/testing";
+import { BoltzClient } from "./boltz-client";
+import { ChainSwapController } from "./chain-swap.controller";
+import { ChainSwapModule } from "./chain-swap.module";
+import { DtoValidationPipe } from "./dto/dto-validation.pipe";
+import {
+  ChainSwapConfig,
+  ChainSwapConfigError,
+  loadChainSwapConfig,
+  toChainSwapServiceOptions,
+} from "./chain-swap-config";
+import { resolveChainSwapNetworks } from "./chain-swap-network";
+import {
+  assertChainSwapTransition,
+  canTransitionChainSwap,
+  getTargetChainSwapStatus,
+  IllegalChainSwapTransitionError,
+} from "./chain-swap-state-machine";
+import { createChainSwapRequestValidator } from "./dto/create-chain-swap-request.dto";
+import axios from "axios";
+import { BIP32Factory } from "bip32";
+import * as bip39 from "bip39";
+import { SwapKeyProvider, SwapKeyType } from "./swap-key-provider";
+import { ChainSwapRepository } from "./chain-swap.repository";
+import {
+  ChainSwapTransactionStatus,
+  WithdrawChainSwapTransaction,
+} from "./entities/withdraw-chain-swap-transaction.entity";
 
-// Environment variables - replace these with your actual regtest values
-const BOLTZ_WEBSOCKET_URL = "ws://localhost:9001/v2/ws"; // Replace with your regtest WebSocket URL
-const BOLTZ_API_URL = "http://localhost:9001";
+// Regtest values of the modes that run against the simulator or recordings. The modes talking to
+// a real Boltz are configured via CHAIN_SWAP_CONFIG and environment variables, see loadLiveConfig
 const NETWORK = "regtest";
 const USER_BTC_ADDRESS = "bcrt1qz2npm9j8uap52v8usgt08maqvtu7yumh0rfydq";
+const USER_LIQUID_ADDRESS =
+  "el1qqfttx29npj9ltqu7yszcw3u8jsytmvmzg8wfctnuvx065y4jjgyk0g7xk8hy5jwe72hnkwqzjar5f7afysty5pfy6tz47yd68";
 const AMOUNT = 25_000;
+// Set to write the session with Boltz, key material included, to this JSONL file
+const RECORD_SESSION = process.env.RECORD_SESSION;
+// Recording played back by the "replay" test mode
+const REPLAY_SESSION = process.env.REPLAY_SESSION;
+// JSON file with a DetectSwapDiagnosticsInput to diagnose in the "detectswap" test mode
+const DETECT_SWAP_INPUT = process.env.DETECT_SWAP_INPUT;
+
+// Config of the modes talking to a real Boltz. Regtest runs without any configuration, other
+// networks need BTC_ADDRESS and LIQUID_ADDRESS to swap from and to
+function loadLiveConfig() {
+  let config: ChainSwapConfig;
+  try {
+    config = loadChainSwapConfig();
+  } catch (error) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
+
+  const addresses =
+    config.network === "regtest"
+      ? {
+          BTC: USER_BTC_ADDRESS,
+          "L-BTC": USER_LIQUID_ADDRESS,
+          ...config.swap.addresses,
+        }
+      : config.swap.addresses;
+  const { from, to } = getChainSwapCurrencies(config.swap.direction);
+  if (!addresses[from] || !addresses[to]) {
+    console.error(
+      `❌ Set BTC_ADDRESS and LIQUID_ADDRESS to swap on ${config.network}`
+    );
+    process.exit(1);
+  }
+
+  return {
+    config,
+    from,
+    // The claim address is on the chain we receive, the refund address on the chain we lock
+    claimAddress: addresses[to],
+    refundAddress: addresses[from],
+  };
+}
 
 async function testWebSocketListeners() {
+  const { config, from, claimAddress, refundAddress } = loadLiveConfig();
+
   console.log("=== Boltz Chain Swap WebSocket Listener Debug Test ===");
   console.log("Configuration:");
-  console.log("- Boltz API URL:", BOLTZ_API_URL);
-  console.log("- Boltz WebSocket URL:", BOLTZ_WEBSOCKET_URL);
-  console.log("- Network:", NETWORK);
-  console.log("- User BTC Address:", USER_BTC_ADDRESS);
-  console.log("- Amount:", AMOUNT);
+  console.log("- Boltz API URL:", config.boltz.apiUrl);
+  console.log("- Boltz WebSocket URL:", config.boltz.webSocketUrl);
+  console.log("- Network:", config.network);
+  console.log("- Direction:", config.swap.direction);
+  console.log("- User Claim Address:", claimAddress);
+  console.log("- User Refund Address:", refundAddress);
+  console.log("- Amount:", config.swap.amount);
+  console.log("- Recording to:", RECORD_SESSION ?? "-");
   console.log("");
 
   const service = new ChainToChainSwapService(
-    BOLTZ_API_URL,
-    BOLTZ_WEBSOCKET_URL,
-    NETWORK
+    config.boltz.apiUrl,
+    config.boltz.webSocketUrl,
+    config.network,
+    {
+      ...toChainSwapServiceOptions(config),
+      sessionRecording: RECORD_SESSION
+        ? { mode: "record", path: RECORD_SESSION }
+        : undefined,
+    }
   );
 
   try {
@@ -35,8 +169,13 @@ async function testWebSocketListeners() {
     console.log("");
 
     console.log("Creating chain swap with WebSocket listeners...");
-    const { chainSwap, mockSwapEntity } =
-      await service.startBoltzChainSwapWithListeners(USER_BTC_ADDRESS, AMOUNT);
+    const { chainSwap } =
+      await service.startBoltzChainSwapWithListeners(
+        claimAddress,
+        config.swap.amount,
+        refundAddress,
+        config.swap.direction
+      );
 
     console.log("✅ Chain swap created with listeners:", {
       swapId: chainSwap.id,
@@ -54,7 +193,7 @@ async function testWebSocketListeners() {
     console.log(
       "1. Send",
       chainSwap.lockupDetails.amount,
-      "satoshis of L-BTC to:"
+      `satoshis of ${from} to:`
     );
     console.log("   Address:", chainSwap.lockupDetails.lockupAddress);
     console.log("   BIP21:", chainSwap.lockupDetails.bip21);
@@ -64,7 +203,7 @@ async function testWebSocketListeners() {
     );
     console.log("3. The service will automatically handle:");
     console.log("   - swap.created event");
-    console.log("   - transaction.lockup event");
+    console.log("   - transaction.mempool and transaction.confirmed events");
     console.log(
       "   - transaction.server.mempool event (where detectSwap is called)"
     );
@@ -72,7 +211,7 @@ async function testWebSocketListeners() {
     console.log("");
     console.log("Expected flow:");
     console.log(
-      "  swap.created → transaction.lockup → transaction.server.mempool → transaction.claimed"
+      "  swap.created → transaction.mempool → transaction.confirmed → transaction.server.mempool → transaction.claimed"
     );
     console.log("");
     console.log(
@@ -91,13 +230,10 @@ async function testWebSocketListeners() {
       process.exit(0);
     });
 
-    // Keep alive
-    setInterval(() => {
-      if (!service.isWebSocketConnected()) {
-        console.log("❌ WebSocket connection lost");
-        process.exit(1);
-      }
-    }, 5000);
+    // The client reconnects and resubscribes on its own, so connection drops are only reported
+    service.onWebSocketConnectionState().subscribe((state) => {
+      console.log("🔌 WebSocket connection state:", state);
+    });
 
     // Prevent the process from exiting
     await new Promise(() => {});
@@ -118,10 +254,12 @@ async function testWebSocketListenersWithMockData() {
 
   // This would require modifying the WebSocket client to accept mock messages
   // For now, we'll just test the connection
+  const { config } = loadLiveConfig();
   const service = new ChainToChainSwapService(
-    BOLTZ_API_URL,
-    BOLTZ_WEBSOCKET_URL,
-    NETWORK
+    config.boltz.apiUrl,
+    config.boltz.webSocketUrl,
+    config.network,
+    toChainSwapServiceOptions(config)
   );
 
   try {
@@ -140,6 +278,1469 @@ async function testWebSocketListenersWithMockData() {
   }
 }
 
+// Known L-BTC/BTC pair the quotes below are pinned against
+const QUOTE_FIXTURE_PAIR: ChainPairDto = {
+  hash: "b47a0d1cbcad8b7e5f7e1d8ae3d6b62f8bc4b7e1f2d1c0f3e5a6b7c8d9e0f1a2",
+  rate: 1,
+  limits: {
+    maximal: 4_294_967,
+    minimal: 25_000,
+    maximalZeroConf: 0,
+  },
+  fees: {
+    percentage: 0.1,
+    minerFees: {
+      server: 459,
+      user: {
+        claim: 462,
+        lockup: 276,
+      },
+    },
+  },
+};
+
+// Checks the quoting math without connecting to Boltz
+function testQuotes() {
+  console.log("=== Testing chain swap quotes against fixture pair data ===");
+
+  assert.deepStrictEqual(quoteReceiveAmount(QUOTE_FIXTURE_PAIR, 25_000), {
+    pairHash: QUOTE_FIXTURE_PAIR.hash,
+    sendAmount: 25_947,
+    receiveAmount: 25_000,
+    serverLockAmount: 25_462,
+    boltzFeePercentage: 0.1,
+    boltzFee: 26,
+    serverMinerFee: 459,
+    userClaimFee: 462,
+    limits: { minimal: 25_000, maximal: 4_294_967 },
+  });
+
+  const sendQuote = quoteSendAmount(QUOTE_FIXTURE_PAIR, 100_000);
+  assert.strictEqual(sendQuote.boltzFee, 100);
+  assert.strictEqual(sendQuote.serverLockAmount, 99_441);
+  assert.strictEqual(sendQuote.receiveAmount, 98_979);
+
+  // Boltz rounds the percentage fee up, so a fractional fee costs a whole sat
+  assert.strictEqual(quoteSendAmount(QUOTE_FIXTURE_PAIR, 25_001).boltzFee, 26);
+  assert.strictEqual(quoteSendAmount(QUOTE_FIXTURE_PAIR, 25_000).boltzFee, 25);
+
+  // Quoting by receive amount picks the smallest send amount that delivers it
+  [1_000, 25_000, 99_999, 123_457, 1_000_000].forEach((receiveAmount) => {
+    const quote = quoteReceiveAmount(QUOTE_FIXTURE_PAIR, receiveAmount);
+    assert.ok(quote.receiveAmount >= receiveAmount);
+    assert.ok(
+      quoteSendAmount(QUOTE_FIXTURE_PAIR, quote.sendAmount - 1).receiveAmount <
+        receiveAmount
+    );
+  });
+
+  // Both directions agree with each other
+  assert.strictEqual(
+    quoteSendAmount(QUOTE_FIXTURE_PAIR, 25_947).receiveAmount,
+    25_000
+  );
+
+  assert.throws(() => quoteSendAmount(QUOTE_FIXTURE_PAIR, 900));
+  assert.throws(() => quoteReceiveAmount(QUOTE_FIXTURE_PAIR, 0));
+
+  console.log("✅ All quotes match");
+}
+
+// Claims only count as confirmed once the claim watcher saw them on chain
+const CLAIM_WATCH_OPTIONS = { pollIntervalMs: 100 };
+
+const isClaimedCooperatively = (swap: WithdrawChainSwapTransaction) =>
+  swap.status === ChainSwapTransactionStatus.CLAIM_CONFIRMED &&
+  swap.claimType === "cooperative";
+
+// Where each scripted scenario has to leave the swap
+const SIMULATOR_EXPECTATIONS: Record<
+  SimulatorScenarioName,
+  (swap: WithdrawChainSwapTransaction) => boolean
+> = {
+  happyPath: isClaimedCooperatively,
+  // The simulator has no new quote for a lockup this far off
+  lockupFailed: (swap) =>
+    swap.status === ChainSwapTransactionStatus.REFUNDED &&
+    !!swap.refundTransactionId &&
+    swap.quoteDecision === "unavailable" &&
+    swap.quoteDecisionReason === "no quote available",
+  expired: (swap) => swap.status === ChainSwapTransactionStatus.LOCKUP_FAILED,
+  claimRefused: (swap) =>
+    swap.status === ChainSwapTransactionStatus.CLAIM_CONFIRMED &&
+    swap.claimType === "scriptPath",
+  quoteAccepted: (swap) =>
+    swap.status === ChainSwapTransactionStatus.CLAIM_CONFIRMED &&
+    swap.quoteDecision === "accepted" &&
+    swap.claimAmount === swap.quotedClaimAmount &&
+    swap.claimType === "cooperative",
+  // Only completes if the client reconnects and subscribes to the swap again
+  connectionDropped: isClaimedCooperatively,
+  pingsUnanswered: isClaimedCooperatively,
+  // The first claim never confirms, so a confirmed one is its replacement
+  claimReplaced: (swap) =>
+    isClaimedCooperatively(swap) &&
+    swap.claimFeeRate >
+      simulatorFeeRates[getChainSwapCurrencies(swap.direction).to],
+};
+
+// Reconnects the client needs at least for the connection trouble of a scenario,
+// a dropped connection is only restored after the refused attempts
+const getExpectedReconnects = (scenario: SimulatorScenarioName) =>
+  simulatorScenarios[scenario].steps.reduce(
+    (reconnects, { connection }) =>
+      reconnects +
+      (connection === "dropped"
+        ? 1 + simulatorRefusedReconnects
+        : connection === "unresponsive"
+          ? 1
+          : 0),
+    0
+  );
+
+const waitFor = async (
+  condition: () => boolean | Promise<boolean>,
+  timeoutMs: number
+) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) {
+      return false;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  return true;
+};
+
+// Drives the service through every scripted scenario of the Boltz simulator, in both directions
+async function testSimulatorScenarios() {
+  console.log("=== Testing chain swaps against the Boltz simulator ===");
+
+  const scenarios = Object.keys(simulatorScenarios) as SimulatorScenarioName[];
+  const failures: string[] = [];
+
+  for (const direction of [
+    ChainSwapDirection.LIQUID_TO_BITCOIN,
+    ChainSwapDirection.BITCOIN_TO_LIQUID,
+  ]) {
+    const { from, to } = getChainSwapCurrencies(direction);
+
+    for (const scenario of scenarios) {
+      const name = `${scenario} (${from} -> ${to})`;
+      const simulator = new BoltzSimulator({
+        scenario: simulatorScenarios[scenario],
+      });
+      const { apiUrl, webSocketUrl } = await simulator.start();
+      const service = new ChainToChainSwapService(
+        apiUrl,
+        webSocketUrl,
+        NETWORK,
+        {
+          dataSource: createDataSource(":memory:"),
+          claimFallback: { cooperativeRetries: 1, retryDelayMs: 10 },
+          claimFeeBump: CLAIM_WATCH_OPTIONS,
+          webSocket: {
+            reconnectInitialDelayMs: 100,
+            pingIntervalMs: 200,
+            pongTimeoutMs: 300,
+          },
+        }
+      );
+
+      try {
+        await service.initialize();
+        const { swapEntity } = await service.startBoltzChainSwapWithListeners(
+          to === "BTC" ? USER_BTC_ADDRESS : USER_LIQUID_ADDRESS,
+          AMOUNT,
+          from === "BTC" ? USER_BTC_ADDRESS : USER_LIQUID_ADDRESS,
+          direction
+        );
+
+        const completed = await waitFor(
+          () => SIMULATOR_EXPECTATIONS[scenario](swapEntity),
+          10_000
+        );
+        const reconnects = Number(
+          (await service.getMetrics()).match(
+            /^boltz_websocket_reconnects_total (\d+)$/m
+          )?.[1] ?? 0
+        );
+        if (reconnects < getExpectedReconnects(scenario)) {
+          failures.push(
+            `${name}: reconnected ${reconnects} times, expected at least ${getExpectedReconnects(scenario)}`
+          );
+        } else if (completed) {
+          console.log(`✅ ${name}`);
+        } else {
+          failures.push(
+            `${name}: swap ended in ${ChainSwapTransactionStatus[swapEntity.status]} (${swapEntity.claimType ?? "no claim"})`
+          );
+        }
+      } catch (error) {
+        failures.push(`${name}: ${error.message}`);
+      } finally {
+        service.disconnect();
+        await simulator.stop();
+      }
+    }
+  }
+
+  // A swap whose lockup confirmed before a restart is claimed by the next process
+  for (const direction of [
+    ChainSwapDirection.LIQUID_TO_BITCOIN,
+    ChainSwapDirection.BITCOIN_TO_LIQUID,
+  ]) {
+    const { from, to } = getChainSwapCurrencies(direction);
+    const name = `restart mid-swap (${from} -> ${to})`;
+    const simulator = new BoltzSimulator({
+      scenario: simulatorScenarios.happyPath,
+      stepDelayMs: 200,
+    });
+    const { apiUrl, webSocketUrl } = await simulator.start();
+    const dataSource = createDataSource(":memory:");
+    const mnemonic = SwapKeyProvider.generateMnemonic();
+    const createService = () =>
+      new ChainToChainSwapService(apiUrl, webSocketUrl, NETWORK, {
+        dataSource,
+        mnemonic,
+        logLevel: "error",
+        claimFeeBump: CLAIM_WATCH_OPTIONS,
+      });
+    let service = createService();
+
+    try {
+      await service.initialize();
+      const { swapEntity } = await service.startBoltzChainSwapWithListeners(
+        to === "BTC" ? USER_BTC_ADDRESS : USER_LIQUID_ADDRESS,
+        AMOUNT,
+        from === "BTC" ? USER_BTC_ADDRESS : USER_LIQUID_ADDRESS,
+        direction
+      );
+      assert.ok(
+        await waitFor(
+          () =>
+            swapEntity.status === ChainSwapTransactionStatus.LOCKUP_CONFIRMED,
+          10_000
+        ),
+        "user lockup never confirmed"
+      );
+
+      service.disconnect();
+      service = createService();
+      await service.initialize();
+
+      const repository = new ChainSwapRepository(dataSource);
+      let recovered: WithdrawChainSwapTransaction;
+      if (
+        await waitFor(async () => {
+          recovered = await repository.findBySwapId(swapEntity.swapId);
+          return SIMULATOR_EXPECTATIONS.happyPath(recovered);
+        }, 10_000)
+      ) {
+        console.log(`✅ ${name}`);
+      } else {
+        failures.push(
+          `${name}: swap ended in ${ChainSwapTransactionStatus[recovered.status]} (${recovered.claimType ?? "no claim"})`
+        );
+      }
+    } catch (error) {
+      failures.push(`${name}: ${error.message}`);
+    } finally {
+      service.disconnect();
+      await simulator.stop();
+    }
+  }
+
+  // Two swaps to the same address that become claimable within the batch window share one claim
+  for (const direction of [
+    ChainSwapDirection.LIQUID_TO_BITCOIN,
+    ChainSwapDirection.BITCOIN_TO_LIQUID,
+  ]) {
+    const { from, to } = getChainSwapCurrencies(direction);
+    const name = `batched claim (${from} -> ${to})`;
+    const simulator = new BoltzSimulator({
+      scenario: simulatorScenarios.happyPath,
+    });
+    const { apiUrl, webSocketUrl } = await simulator.start();
+    const service = new ChainToChainSwapService(apiUrl, webSocketUrl, NETWORK, {
+      dataSource: createDataSource(":memory:"),
+      logLevel: "error",
+      claimBatching: { enabled: true, windowMs: 1_000 },
+      claimFeeBump: CLAIM_WATCH_OPTIONS,
+    });
+
+    try {
+      await service.initialize();
+      const swaps = await Promise.all(
+        [0, 1].map(async () => {
+          const { swapEntity } = await service.startBoltzChainSwapWithListeners(
+            to === "BTC" ? USER_BTC_ADDRESS : USER_LIQUID_ADDRESS,
+            AMOUNT,
+            from === "BTC" ? USER_BTC_ADDRESS : USER_LIQUID_ADDRESS,
+            direction
+          );
+          return swapEntity;
+        })
+      );
+
+      if (
+        (await waitFor(
+          () =>
+            swaps.every(
+              (swap) =>
+                swap.status === ChainSwapTransactionStatus.CLAIM_CONFIRMED
+            ),
+          10_000
+        )) &&
+        swaps.every((swap) => swap.claimType === "batched") &&
+        swaps[0].claimTransactionId === swaps[1].claimTransactionId
+      ) {
+        console.log(`✅ ${name}`);
+      } else {
+        failures.push(
+          `${name}: swaps ended in ${swaps
+            .map(
+              (swap) =>
+                `${ChainSwapTransactionStatus[swap.status]} (${swap.claimType ?? "no claim"}, ${swap.claimTransactionId})`
+            )
+            .join(" and ")}`
+        );
+      }
+    } catch (error) {
+      failures.push(`${name}: ${error.message}`);
+    } finally {
+      service.disconnect();
+      await simulator.stop();
+    }
+  }
+
+  // Swaps whose creation response doesn't hold up are refused before anything is stored
+  const corruptionErrors: Record<SimulatorSwapCorruption, string> = {
+    swappedTrees: "claim leaf isn't locked to the expected claim key",
+    wrongLockupAddress: "lockup address doesn't match the swap tree and keys",
+    wrongBlindingKey: "lockup address isn't blinded with the blinding key",
+    amountOutsideTolerance: "claim amount",
+    timeoutMismatch: "refund leaf timeout",
+  };
+  for (const corruption of Object.keys(
+    corruptionErrors
+  ) as SimulatorSwapCorruption[]) {
+    const simulator = new BoltzSimulator({ corruptSwapResponse: corruption });
+    const { apiUrl, webSocketUrl } = await simulator.start();
+    const dataSource = createDataSource(":memory:");
+    const service = new ChainToChainSwapService(apiUrl, webSocketUrl, NETWORK, {
+      dataSource,
+      logLevel: "error",
+    });
+
+    try {
+      await service.initialize();
+      for (const direction of [
+        ChainSwapDirection.LIQUID_TO_BITCOIN,
+        ChainSwapDirection.BITCOIN_TO_LIQUID,
+      ]) {
+        const { from, to } = getChainSwapCurrencies(direction);
+        const name = `${corruption} response (${from} -> ${to})`;
+        const created = await service
+          .startBoltzChainSwapWithListeners(
+            to === "BTC" ? USER_BTC_ADDRESS : USER_LIQUID_ADDRESS,
+            AMOUNT,
+            from === "BTC" ? USER_BTC_ADDRESS : USER_LIQUID_ADDRESS,
+            direction
+          )
+          .then(
+            () => undefined,
+            (error: Error) => error
+          );
+        const storedSwaps = await dataSource
+          .getRepository(WithdrawChainSwapTransaction)
+          .count();
+
+        if (
+          !created?.message.startsWith("Rejecting chain swap") ||
+          !created.message.includes(corruptionErrors[corruption])
+        ) {
+          failures.push(
+            `${name}: creation ${created ? `failed with "${created.message}"` : "succeeded"}`
+          );
+        } else if (storedSwaps > 0) {
+          failures.push(`${name}: ${storedSwaps} swaps were stored`);
+        } else {
+          console.log(`✅ ${name}`);
+        }
+      }
+    } catch (error) {
+      failures.push(`${corruption} response: ${error.message}`);
+    } finally {
+      service.disconnect();
+      await simulator.stop();
+    }
+  }
+
+  // A socket that is still connecting must not open after the disconnect
+  const simulator = new BoltzSimulator({
+    scenario: simulatorScenarios.happyPath,
+  });
+  const { webSocketUrl } = await simulator.start();
+  const client = new BoltzWebsocketClient(
+    webSocketUrl,
+    {},
+    {},
+    new JsonLogger({ level: "error" })
+  );
+  const connecting = client.connect().then(
+    () => "connected",
+    () => "rejected"
+  );
+  client.disconnect();
+  const outcome = await connecting;
+  await new Promise((resolve) => setTimeout(resolve, 100));
+  if (outcome !== "rejected" || client.isWebSocketConnected()) {
+    failures.push(`disconnect while connecting: socket ${outcome}`);
+  } else {
+    console.log("✅ disconnect while connecting");
+  }
+  await simulator.stop();
+
+  if (failures.length > 0) {
+    failures.forEach((failure) => console.error(`❌ ${failure}`));
+    process.exit(1);
+  }
+  console.log("✅ All simulator scenarios passed");
+}
+
+// Runs a swap against the simulator and checks what the metrics endpoint reports about it
+async function testMetrics() {
+  console.log("=== Testing swap metrics against the Boltz simulator ===");
+
+  const simulator = new BoltzSimulator({
+    scenario: simulatorScenarios.happyPath,
+  });
+  const { apiUrl, webSocketUrl } = await simulator.start();
+  const registry = new MetricsRegistry();
+  const service = new ChainToChainSwapService(apiUrl, webSocketUrl, NETWORK, {
+    dataSource: createDataSource(":memory:"),
+    logLevel: "warn",
+    metrics: { registry },
+    claimFeeBump: CLAIM_WATCH_OPTIONS,
+  });
+  const metricsServer = new MetricsServer(registry);
+
+  try {
+    await service.initialize();
+    const { swapEntity } = await service.startBoltzChainSwapWithListeners(
+      USER_BTC_ADDRESS,
+      AMOUNT,
+      USER_LIQUID_ADDRESS,
+      ChainSwapDirection.LIQUID_TO_BITCOIN
+    );
+    assert.ok(
+      await waitFor(
+        () => SIMULATOR_EXPECTATIONS.happyPath(swapEntity),
+        10_000
+      ),
+      "swap did not complete"
+    );
+
+    const response = await axios.get(await metricsServer.start());
+    assert.match(
+      String(response.headers["content-type"]),
+      /^text\/plain; version=0\.0\.4/
+    );
+    const metrics: string = response.data;
+
+    const direction = 'direction="L-BTC/BTC"';
+    [
+      `chain_swaps_created_total{${direction}} 1`,
+      `chain_swaps_completed_total{${direction}} 1`,
+      `chain_swaps{${direction},status="CLAIM_CONFIRMED"} 1`,
+      `chain_swaps{${direction},status="REFUNDED"} 0`,
+      'chain_swap_status_transitions_total{from="CLAIM_PENDING",to="CLAIM_CONFIRMED"} 1',
+      `chain_swap_lockup_to_claim_seconds_count{${direction}} 1`,
+      "# TYPE boltz_api_request_duration_seconds histogram",
+    ].forEach((line) => assert.ok(metrics.includes(line), `missing ${line}`));
+    assert.match(
+      metrics,
+      /boltz_api_request_duration_seconds_count\{method="POST",endpoint="\/v2\/swap\/chain\/:id\/claim",status="200"\} [1-9]/
+    );
+    assert.match(
+      metrics,
+      new RegExp(
+        `chain_swap_fees_paid_sats_total\\{${direction},type="miner"\\} [1-9]`
+      )
+    );
+    // Swap ids never end up in labels
+    assert.ok(!metrics.includes(swapEntity.swapId));
+
+    console.log("✅ Metrics match the swap");
+  } catch (error) {
+    console.error("❌ Error testing metrics:", error);
+    process.exitCode = 1;
+  } finally {
+    await metricsServer.stop();
+    service.disconnect();
+    await simulator.stop();
+  }
+}
+
+// Runs a swap against the simulator with a webhook that rejects the first event until later ones
+// are waiting, and checks that every event arrives signed and in order after the retries
+async function testWebhooks() {
+  console.log("=== Testing webhook delivery against the Boltz simulator ===");
+
+  const secret = "webhook-test-secret";
+  const delivered: ChainSwapEvent[] = [];
+  const deliveryIds: string[] = [];
+  const emitted: ChainSwapEvent[] = [];
+
+  const receiver = createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      const header = (name: string) =>
+        String(request.headers[name.toLowerCase()]);
+      const timestamp = Number(header(WEBHOOK_TIMESTAMP_HEADER));
+      const signature = header(WEBHOOK_SIGNATURE_HEADER);
+      if (signature !== signWebhookPayload(secret, timestamp, body)) {
+        response.writeHead(401).end();
+        return;
+      }
+      const event: ChainSwapEvent = JSON.parse(body);
+      // Both LockupDetected events are emitted before SwapCreated gets through
+      if (event.type === "SwapCreated" && emitted.length < 3) {
+        response.writeHead(503).end();
+        return;
+      }
+
+      deliveryIds.push(header(WEBHOOK_ID_HEADER));
+      delivered.push(event);
+      response.writeHead(204).end();
+    });
+  });
+  await new Promise<void>((resolve) =>
+    receiver.listen(0, "127.0.0.1", () => resolve())
+  );
+  const { port } = receiver.address() as AddressInfo;
+
+  const simulator = new BoltzSimulator({
+    scenario: simulatorScenarios.happyPath,
+  });
+  const { apiUrl, webSocketUrl } = await simulator.start();
+  const dataSource = createDataSource(":memory:");
+  const service = new ChainToChainSwapService(apiUrl, webSocketUrl, NETWORK, {
+    dataSource,
+    logLevel: "error",
+    webhook: {
+      url: `http://127.0.0.1:${port}/webhook`,
+      secret,
+      initialRetryDelayMs: 50,
+      pollIntervalMs: 20,
+    },
+    claimFeeBump: CLAIM_WATCH_OPTIONS,
+  });
+  const subscription = service
+    .onSwapEvent()
+    .subscribe((event) => emitted.push(event));
+
+  try {
+    await service.initialize();
+    const { swapEntity } = await service.startBoltzChainSwapWithListeners(
+      USER_BTC_ADDRESS,
+      AMOUNT,
+      USER_LIQUID_ADDRESS,
+      ChainSwapDirection.LIQUID_TO_BITCOIN
+    );
+    assert.ok(
+      await waitFor(
+        () =>
+          SIMULATOR_EXPECTATIONS.happyPath(swapEntity) &&
+          delivered.length === emitted.length,
+        10_000
+      ),
+      `delivered ${delivered.length} of ${emitted.length} events`
+    );
+
+    assert.deepStrictEqual(
+      emitted.map((event) => event.type),
+      [
+        "SwapCreated",
+        "LockupDetected",
+        "LockupDetected",
+        "ClaimBroadcast",
+        "SwapCompleted",
+      ]
+    );
+    // The rejected delivery was retried before the later events, and nothing was delivered twice
+    assert.deepStrictEqual(delivered, emitted);
+    assert.deepStrictEqual(
+      deliveryIds,
+      emitted.map((event) => event.id)
+    );
+    assert.ok(emitted.every((event) => event.swapId === swapEntity.swapId));
+
+    const outbox = await dataSource.getRepository(WebhookOutboxEntry).find();
+    assert.strictEqual(outbox.length, emitted.length);
+    assert.ok(outbox.every((entry) => entry.deliveredAt !== null));
+    assert.ok(
+      outbox.find((entry) => entry.eventType === "SwapCreated").attempts >= 2
+    );
+
+    console.log("✅ Webhooks delivered every swap event");
+  } catch (error) {
+    console.error("❌ Error testing webhooks:", error);
+    process.exitCode = 1;
+  } finally {
+    subscription.unsubscribe();
+    service.disconnect();
+    await simulator.stop();
+    await new Promise<void>((resolve) => receiver.close(() => resolve()));
+  }
+}
+
+// Calls the REST controller like Nest would, validation pipe included, for a swap against the simulator
+async function testController() {
+  console.log("=== Testing the chain swap controller against the Boltz simulator ===");
+
+  const module = ChainSwapModule.forRoot({
+    boltzApiUrl: "http://localhost",
+    boltzWebSocketUrl: "ws://localhost",
+  });
+  assert.deepStrictEqual(module.controllers, [ChainSwapController]);
+  assert.strictEqual(module.exports.length, 3);
+
+  const simulator = new BoltzSimulator({
+    scenario: simulatorScenarios.happyPath,
+  });
+  const { apiUrl, webSocketUrl } = await simulator.start();
+  const service = new ChainToChainSwapService(apiUrl, webSocketUrl, NETWORK, {
+    dataSource: createDataSource(":memory:"),
+    logLevel: "error",
+    claimFeeBump: CLAIM_WATCH_OPTIONS,
+  });
+  const controller = new ChainSwapController(service);
+  const bodyPipe = new DtoValidationPipe(
+    createChainSwapRequestValidator(NETWORK)
+  );
+  const request = {
+    userAddress: USER_BTC_ADDRESS,
+    amount: AMOUNT,
+    refundAddress: USER_LIQUID_ADDRESS,
+    direction: ChainSwapDirection.LIQUID_TO_BITCOIN,
+  };
+  const statusOf = async (request: Promise<unknown>) => {
+    try {
+      await request;
+      return 200;
+    } catch (error) {
+      if (typeof error.getStatus !== "function") {
+        throw error;
+      }
+      return (error as HttpException).getStatus();
+    }
+  };
+
+  try {
+    await service.initialize();
+
+    assert.throws(
+      () => bodyPipe.transform({ userAddress: USER_BTC_ADDRESS, amount: -1 }),
+      (error: HttpException) =>
+        error.getStatus() === 400 && /'amount'/.test(error.message)
+    );
+    // Addresses on the wrong chain or network
+    assert.throws(
+      () =>
+        bodyPipe.transform({
+          ...request,
+          userAddress: USER_LIQUID_ADDRESS,
+          refundAddress: USER_BTC_ADDRESS,
+        }),
+      (error: HttpException) =>
+        error.getStatus() === 400 && /'userAddress'/.test(error.message)
+    );
+    assert.strictEqual(
+      await statusOf(
+        controller.create({
+          ...request,
+          userAddress: "bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq",
+        })
+      ),
+      400
+    );
+    // Amounts that don't cover the fees or are outside of the pair limits
+    assert.strictEqual(await statusOf(controller.quote(undefined, 1, 2)), 400);
+    assert.strictEqual(await statusOf(controller.quote(undefined, 100)), 400);
+    assert.strictEqual(
+      await statusOf(controller.create({ ...request, amount: 5_000_000 })),
+      400
+    );
+    const quote = await controller.quote(undefined, AMOUNT);
+    assert.strictEqual(quote.sendAmount, AMOUNT);
+
+    const created = await controller.create(request);
+    assert.ok(created.lockupAddress, "no lockup address to pay to");
+    assert.ok(!("preimage" in created), "preimage returned by the API");
+
+    // The controller reads the swap from the database, not the instance the listener updates
+    let { status } = created;
+    const deadline = Date.now() + 10_000;
+    while (status !== "CLAIM_CONFIRMED" && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      ({ status } = await controller.get(created.swapId));
+    }
+    assert.strictEqual(status, "CLAIM_CONFIRMED");
+    assert.deepStrictEqual(
+      (await controller.list("CLAIM_CONFIRMED")).map((swap) => swap.swapId),
+      [created.swapId]
+    );
+    assert.deepStrictEqual(await controller.list("REFUNDED"), []);
+    assert.strictEqual(await statusOf(controller.list("DONE")), 400);
+    assert.strictEqual(await statusOf(controller.get("unknown")), 404);
+    assert.strictEqual(await statusOf(controller.refund(created.swapId)), 409);
+
+    console.log("✅ Controller quotes, creates, lists and guards refunds");
+  } catch (error) {
+    console.error("❌ Error testing the controller:", error);
+    process.exitCode = 1;
+  } finally {
+    service.disconnect();
+    await simulator.stop();
+  }
+}
+
+// Boots ChainSwapModule in a Nest testing module and calls the REST API over HTTP, so dependency
+// injection, the lifecycle hooks and Nest's parse pipes are covered as well
+async function testChainSwapModuleOverHttp() {
+  console.log("=== Testing the chain swap module over HTTP ===");
+
+  // The swap expires before anything is locked up, so there is nothing to refund
+  const simulator = new BoltzSimulator({
+    scenario: simulatorScenarios.expired,
+  });
+  const { apiUrl, webSocketUrl } = await simulator.start();
+  const moduleRef = await Test.createTestingModule({
+    imports: [
+      ChainSwapModule.forRoot({
+        boltzApiUrl: apiUrl,
+        boltzWebSocketUrl: webSocketUrl,
+        network: NETWORK,
+        service: {
+          dataSource: createDataSource(":memory:"),
+          logLevel: "error",
+        },
+      }),
+    ],
+  }).compile();
+  const app = moduleRef.createNestApplication({ logger: false });
+  let closed = false;
+
+  try {
+    await app.listen(0, "127.0.0.1");
+    const service = app.get(ChainToChainSwapService);
+    assert.ok(service.isWebSocketConnected(), "not connected on module init");
+    assert.strictEqual(app.get(BoltzClient), service.getBoltzClient());
+    assert.strictEqual(
+      app.get(BoltzWebsocketClient),
+      service.getBoltzWebSocketClient()
+    );
+
+    const http = axios.create({
+      baseURL: `${await app.getUrl()}/chain-swaps`,
+      validateStatus: () => true,
+    });
+    assert.strictEqual(
+      (await http.get("/quote", { params: { sendAmount: "lots" } })).status,
+      400
+    );
+    assert.strictEqual(
+      (await http.get("", { params: { direction: "sideways" } })).status,
+      400
+    );
+    assert.strictEqual(
+      (await http.get("", { params: { limit: "1.5" } })).status,
+      400
+    );
+    const quote = await http.get("/quote", {
+      params: {
+        direction: ChainSwapDirection.BITCOIN_TO_LIQUID,
+        sendAmount: AMOUNT,
+      },
+    });
+    assert.strictEqual(quote.status, 200);
+    assert.strictEqual(quote.data.sendAmount, AMOUNT);
+
+    assert.strictEqual((await http.post("", { amount: -1 })).status, 400);
+    const created = await http.post("", {
+      userAddress: USER_BTC_ADDRESS,
+      amount: AMOUNT,
+      refundAddress: USER_LIQUID_ADDRESS,
+      direction: ChainSwapDirection.LIQUID_TO_BITCOIN,
+    });
+    assert.strictEqual(created.status, 201);
+    assert.ok(
+      await waitFor(
+        async () =>
+          (await http.get(`/${created.data.swapId}`)).data.status ===
+          "LOCKUP_FAILED",
+        10_000
+      ),
+      "swap did not expire"
+    );
+    const refund = await http.post(`/${created.data.swapId}/refund`);
+    assert.strictEqual(refund.status, 409);
+    assert.match(refund.data.message, /No user lockup/);
+    assert.strictEqual((await http.get("/unknown")).status, 404);
+
+    await app.close();
+    closed = true;
+    assert.ok(
+      !service.isWebSocketConnected(),
+      "still connected after shutdown"
+    );
+
+    console.log("✅ Module injects, starts, serves and shuts down over HTTP");
+  } catch (error) {
+    console.error("❌ Error testing the module over HTTP:", error);
+    process.exitCode = 1;
+  } finally {
+    if (!closed) {
+      await app.close();
+    }
+    await simulator.stop();
+  }
+}
+
+// Loads configs from fixture environments and files, without connecting to anything
+function testConfig() {
+  console.log("=== Testing configuration loading and validation ===");
+
+  const defaults = loadChainSwapConfig({ env: {} });
+  assert.strictEqual(defaults.network, "regtest");
+  assert.strictEqual(defaults.boltz.apiUrl, "http://localhost:9001");
+  assert.strictEqual(
+    defaults.swap.direction,
+    ChainSwapDirection.LIQUID_TO_BITCOIN
+  );
+  assert.strictEqual(defaults.maxFeeRate.BTC, 200);
+
+  // Both chains of a network belong together
+  const testnet = resolveChainSwapNetworks("testnet");
+  assert.strictEqual(testnet.bitcoin.bech32, "tb");
+  assert.strictEqual(testnet.liquid.bech32, "tex");
+
+  const file = join(tmpdir(), `chain-swap-config-${process.pid}.json`);
+  writeFileSync(
+    file,
+    JSON.stringify({
+      network: "testnet",
+      maxFeeRate: { BTC: 50 },
+      swap: { amount: 100_000 },
+    })
+  );
+  try {
+    // Environment variables win over the file
+    const config = loadChainSwapConfig({
+      env: {
+        CHAIN_SWAP_CONFIG: file,
+        SWAP_AMOUNT: "50000",
+        LOG_LEVEL: "warn",
+      },
+    });
+    assert.strictEqual(config.network, "testnet");
+    assert.strictEqual(
+      config.boltz.webSocketUrl,
+      "wss://api.testnet.boltz.exchange/v2/ws"
+    );
+    assert.strictEqual(config.swap.amount, 50_000);
+    assert.deepStrictEqual(config.maxFeeRate, { BTC: 50, "L-BTC": 1 });
+    assert.deepStrictEqual(
+      toChainSwapServiceOptions(config).claimFeeBump.maxFeeRate,
+      config.maxFeeRate
+    );
+
+    writeFileSync(file, JSON.stringify({ boltz: { apiURL: "http://x" } }));
+    const problems = (() => {
+      try {
+        loadChainSwapConfig({
+          env: {
+            CHAIN_SWAP_CONFIG: file,
+            NETWORK: "mainnet",
+            BOLTZ_WEBSOCKET_URL: "https://api.boltz.exchange",
+            BTC_ADDRESS: USER_BTC_ADDRESS,
+            AMOUNT_TOLERANCE_PERCENTAGE: "150",
+          },
+        });
+      } catch (error) {
+        assert.strictEqual(error.name, "ChainSwapConfigError");
+        return (error as ChainSwapConfigError).problems;
+      }
+      assert.fail("invalid config was loaded");
+    })();
+    // Every problem is reported at once, with where the value came from
+    assert.deepStrictEqual(problems, [
+      `boltz.apiURL (${file}): unknown setting`,
+      "boltz.webSocketUrl (BOLTZ_WEBSOCKET_URL): expected a URL starting with ws:// or wss://, got \"https://api.boltz.exchange\"",
+      `swap.addresses.BTC (BTC_ADDRESS): expected a BTC address of mainnet, got "${USER_BTC_ADDRESS}"`,
+      "amountTolerancePercentage (AMOUNT_TOLERANCE_PERCENTAGE): expected a number between 0 and 100, got 150",
+      "mnemonic: a mnemonic or xprv is required on mainnet, swaps with a random seed can't be recovered after a restart",
+    ]);
+
+    assert.throws(
+      () => loadChainSwapConfig({ env: { NETWORK: "signet" } }),
+      /network \(NETWORK\): expected one of mainnet, testnet, regtest, got "signet"/
+    );
+    assert.throws(
+      () => loadChainSwapConfig({ env: { SWAP_AMOUNT: "lots" } }),
+      /swap\.amount \(SWAP_AMOUNT\): expected a number/
+    );
+  } finally {
+    unlinkSync(file);
+  }
+
+  console.log("✅ Configs load, merge and fail with every problem");
+}
+
+// Plays a recorded session back into the service, without Boltz
+async function testReplaySession() {
+  if (!REPLAY_SESSION) {
+    await testSimulatorSessionReplay();
+    return;
+  }
+  console.log("=== Replaying recorded Boltz session ===");
+
+  // Everything comes from the recording, the URLs are never connected to
+  const service = new ChainToChainSwapService(
+    "http://localhost:9001",
+    "ws://localhost:9001/v2/ws",
+    NETWORK,
+    {
+      dataSource: createDataSource(":memory:"),
+      sessionRecording: { mode: "replay", path: REPLAY_SESSION },
+    }
+  );
+
+  try {
+    await service.initialize();
+    await service.replayRecordedSession();
+    console.log("✅ Replay finished");
+  } catch (error) {
+    console.error("❌ Error during replay:", error);
+    process.exitCode = 1;
+  } finally {
+    service.disconnect();
+  }
+}
+
+// Sessions recorded against the Boltz simulator have to replay to the very same claims and refunds,
+// Liquid ones included
+async function testSimulatorSessionReplay() {
+  console.log("=== Replaying sessions recorded against the Boltz simulator ===");
+
+  const failures: string[] = [];
+  for (const direction of [
+    ChainSwapDirection.LIQUID_TO_BITCOIN,
+    ChainSwapDirection.BITCOIN_TO_LIQUID,
+  ]) {
+    const { from, to } = getChainSwapCurrencies(direction);
+
+    for (const scenario of ["happyPath", "lockupFailed"] as const) {
+      const name = `${scenario} (${from} -> ${to})`;
+      const path = join(tmpdir(), `chain-swap-session-${process.pid}.jsonl`);
+      const createService = (
+        apiUrl: string,
+        webSocketUrl: string,
+        dataSource: ReturnType<typeof createDataSource>,
+        mode: "record" | "replay"
+      ) =>
+        new ChainToChainSwapService(apiUrl, webSocketUrl, NETWORK, {
+          dataSource,
+          logLevel: "error",
+          claimFeeBump: CLAIM_WATCH_OPTIONS,
+          sessionRecording: { mode, path },
+        });
+
+      const simulator = new BoltzSimulator({
+        scenario: simulatorScenarios[scenario],
+      });
+      const { apiUrl, webSocketUrl } = await simulator.start();
+      let service = createService(
+        apiUrl,
+        webSocketUrl,
+        createDataSource(":memory:"),
+        "record"
+      );
+
+      try {
+        await service.initialize();
+        const { swapEntity: recorded } =
+          await service.startBoltzChainSwapWithListeners(
+            to === "BTC" ? USER_BTC_ADDRESS : USER_LIQUID_ADDRESS,
+            AMOUNT,
+            from === "BTC" ? USER_BTC_ADDRESS : USER_LIQUID_ADDRESS,
+            direction
+          );
+        assert.ok(
+          await waitFor(
+            () => SIMULATOR_EXPECTATIONS[scenario](recorded),
+            10_000
+          ),
+          "recorded swap did not complete"
+        );
+        service.disconnect();
+
+        const dataSource = createDataSource(":memory:");
+        service = createService(
+          "http://localhost:9001",
+          "ws://localhost:9001/v2/ws",
+          dataSource,
+          "replay"
+        );
+        await service.initialize();
+        await service.replayRecordedSession();
+
+        const replayed = await new ChainSwapRepository(dataSource).findBySwapId(
+          recorded.swapId
+        );
+        const outcome = (swap: WithdrawChainSwapTransaction) =>
+          `${ChainSwapTransactionStatus[swap.status]} (claim ${swap.claimTransactionId ?? "none"}, refund ${swap.refundTransactionId ?? "none"})`;
+        if (outcome(replayed) === outcome(recorded)) {
+          console.log(`✅ ${name}`);
+        } else {
+          failures.push(
+            `${name}: replay ended in ${outcome(replayed)}, recording in ${outcome(recorded)}`
+          );
+        }
+      } catch (error) {
+        failures.push(`${name}: ${error.message}`);
+      } finally {
+        service.disconnect();
+        await simulator.stop();
+        unlinkSync(path);
+      }
+    }
+  }
+
+  if (failures.length > 0) {
+    failures.forEach((failure) => console.error(`❌ ${failure}`));
+    process.exit(1);
+  }
+  console.log("✅ All replays match their recordings");
+}
+
+// Diagnoses DETECT_SWAP_INPUT, or checks that lockups built with a wrong assumption are diagnosed as such
+async function testDetectSwap() {
+  const zkp = await zkpInit();
+
+  if (DETECT_SWAP_INPUT) {
+    const input: DetectSwapDiagnosticsInput = JSON.parse(
+      readFileSync(DETECT_SWAP_INPUT, "utf8")
+    );
+    console.log(formatDetectSwapDiagnosis(diagnoseDetectSwap(zkp, input)));
+    return;
+  }
+
+  console.log("=== Testing detectSwap diagnostics against fabricated lockups ===");
+
+  const ECPair = ECPairFactory(ecc);
+  const serverKeys = ECPair.makeRandom();
+  const ourKeys = ECPair.makeRandom();
+  const preimageHash = randomBytes(32);
+  const claimTree = createSwapTree(
+    false,
+    preimageHash,
+    ourKeys.publicKey,
+    serverKeys.publicKey,
+    1_000
+  );
+  const lockupTree = createSwapTree(
+    false,
+    preimageHash,
+    serverKeys.publicKey,
+    ourKeys.publicKey,
+    900
+  );
+
+  const outputScript = (
+    publicKeys: Buffer[],
+    tweak: "BTC" | "L-BTC",
+    tree: typeof claimTree
+  ) => {
+    const signer = publicKeys.find((key) => !key.equals(serverKeys.publicKey));
+    const musig = new Musig(
+      zkp,
+      ECPair.fromPublicKey(signer),
+      randomBytes(32),
+      publicKeys
+    );
+    return Scripts.p2trOutput(
+      tweak === "L-BTC"
+        ? LiquidTaprootUtils.tweakMusig(musig, tree.tree)
+        : TaprootUtils.tweakMusig(musig, tree.tree)
+    );
+  };
+  const bitcoinTransaction = (script: Buffer) => {
+    const transaction = new bitcoin.Transaction();
+    transaction.addInput(randomBytes(32), 0);
+    transaction.addOutput(Buffer.from("0014" + "00".repeat(20), "hex"), 1_000);
+    transaction.addOutput(script, AMOUNT);
+    return transaction.toHex();
+  };
+
+  const serverFirst = [serverKeys.publicKey, ourKeys.publicKey];
+  const cases: { name: string; transactionHex: string; finding: RegExp }[] = [
+    {
+      name: "expected lockup",
+      transactionHex: bitcoinTransaction(
+        outputScript(serverFirst, "BTC", claimTree)
+      ),
+      finding: /^Output 1 matches the expected script/,
+    },
+    {
+      name: "swapped key order",
+      transactionHex: bitcoinTransaction(
+        outputScript([ourKeys.publicKey, serverKeys.publicKey], "BTC", claimTree)
+      ),
+      finding: /^Output 1 matches when the MuSig2 keys were aggregated with our key first/,
+    },
+    {
+      name: "Liquid tweak",
+      transactionHex: bitcoinTransaction(
+        outputScript(serverFirst, "L-BTC", claimTree)
+      ),
+      finding: /^Output 1 matches when the key was tweaked with L-BTC/,
+    },
+    {
+      name: "lockup tree instead of claim tree",
+      transactionHex: bitcoinTransaction(
+        outputScript(serverFirst, "BTC", lockupTree)
+      ),
+      finding: /^Output 1 matches when the output commits to the other swap tree/,
+    },
+    {
+      name: "Liquid transaction",
+      transactionHex: (() => {
+        const transaction = new LiquidTransaction();
+        transaction.addInput(randomBytes(32), 0);
+        transaction.addOutput(
+          outputScript(serverFirst, "BTC", claimTree),
+          Buffer.alloc(9, 1),
+          Buffer.alloc(33, 1),
+          Buffer.of(0)
+        );
+        return transaction.toHex();
+      })(),
+      finding: /^The transaction is a L-BTC transaction/,
+    },
+    {
+      name: "unrelated lockup",
+      transactionHex: bitcoinTransaction(
+        outputScript(
+          [serverKeys.publicKey, ECPair.makeRandom().publicKey],
+          "BTC",
+          claimTree
+        )
+      ),
+      finding: /^No output matches any variant/,
+    },
+  ];
+
+  const failures: string[] = [];
+  cases.forEach(({ name, transactionHex, finding }) => {
+    const diagnosis = diagnoseDetectSwap(zkp, {
+      currency: "BTC",
+      swapTree: SwapTreeSerializer.serializeSwapTree(claimTree),
+      otherSwapTree: SwapTreeSerializer.serializeSwapTree(lockupTree),
+      serverPublicKey: serverKeys.publicKey.toString("hex"),
+      ourPublicKey: ourKeys.publicKey.toString("hex"),
+      transactionHex,
+    });
+
+    if (diagnosis.findings.some((text) => finding.test(text))) {
+      console.log(`✅ ${name}`);
+    } else {
+      failures.push(`${name}:\n${formatDetectSwapDiagnosis(diagnosis)}`);
+    }
+  });
+
+  // A regtest address where a mainnet one was expected is reported too
+  const wrongNetwork = diagnoseDetectSwap(zkp, {
+    currency: "BTC",
+    swapTree: SwapTreeSerializer.serializeSwapTree(claimTree),
+    serverPublicKey: serverKeys.publicKey.toString("hex"),
+    ourPublicKey: ourKeys.publicKey.toString("hex"),
+    transactionHex: cases[0].transactionHex,
+    lockupAddress: bitcoin.address.fromOutputScript(
+      outputScript(serverFirst, "BTC", claimTree),
+      bitcoin.networks.regtest
+    ),
+    network: "mainnet",
+  });
+  if (
+    wrongNetwork.findings.some((text) =>
+      text.startsWith("The lockup address is a bitcoin regtest address")
+    )
+  ) {
+    console.log("✅ lockup address on the wrong network");
+  } else {
+    failures.push(
+      `lockup address on the wrong network:\n${formatDetectSwapDiagnosis(wrongNetwork)}`
+    );
+  }
+
+  if (failures.length > 0) {
+    failures.forEach((failure) => console.error(`❌ ${failure}`));
+    process.exit(1);
+  }
+  console.log("✅ All detectSwap diagnoses match");
+}
+
+// Checks that secrets never make it into log lines, however deeply they are nested
+function testLogRedaction() {
+  console.log("=== Testing log redaction ===");
+
+  const lines: string[] = [];
+  const logger = new JsonLogger({
+    level: "info",
+    write: (line) => lines.push(line),
+  }).child({ component: "test" });
+  const preimage = randomBytes(32);
+
+  logger.debug("Dropped below the log level", { preimage });
+  logger.info("Claiming chain swap", {
+    swapId: "swap",
+    status: "transaction.server.confirmed",
+    preimage,
+    preimageHash: preimage,
+    claimDetails: { blindingKey: "ab", serverPublicKey: "cd" },
+    swap: { claimBlindingKey: "ef", lockupBlindingKey: "01" },
+    signature: { partialSignature: "23", pubNonce: "45" },
+    keys: [{ privateKey: "67" }, { mnemonic: "abandon" }],
+  });
+
+  assert.strictEqual(lines.length, 1);
+  const line = JSON.parse(lines[0]);
+  assert.strictEqual(line.level, "info");
+  assert.strictEqual(line.component, "test");
+  assert.strictEqual(line.swapId, "swap");
+  assert.strictEqual(line.status, "transaction.server.confirmed");
+  assert.strictEqual(line.preimage, REDACTED);
+  // Hashes and public data stay readable
+  assert.strictEqual(line.preimageHash, preimage.toString("hex"));
+  assert.strictEqual(line.claimDetails.blindingKey, REDACTED);
+  assert.strictEqual(line.claimDetails.serverPublicKey, "cd");
+  assert.strictEqual(line.swap.claimBlindingKey, REDACTED);
+  assert.strictEqual(line.swap.lockupBlindingKey, REDACTED);
+  assert.strictEqual(line.signature.partialSignature, REDACTED);
+  assert.strictEqual(line.signature.pubNonce, "45");
+  assert.strictEqual(line.keys[0].privateKey, REDACTED);
+  assert.strictEqual(line.keys[1].mnemonic, REDACTED);
+
+  const unredacted: string[] = [];
+  new JsonLogger({
+    redact: false,
+    write: (line) => unredacted.push(line),
+  }).info("Debugging a regtest swap", { preimage });
+  assert.strictEqual(
+    JSON.parse(unredacted[0]).preimage,
+    preimage.toString("hex")
+  );
+
+  console.log("✅ Secrets are redacted");
+}
+
+// Checks which status transitions a chain swap may take, and the statuses Boltz updates map to
+function testStateMachine() {
+  console.log("=== Testing the chain swap state machine ===");
+
+  const {
+    CREATED,
+    LOCKUP_PENDING,
+    LOCKUP_CONFIRMED,
+    CLAIM_PENDING,
+    CLAIM_CONFIRMED,
+    LOCKUP_FAILED,
+    CLAIM_FAILED,
+    REFUNDED,
+  } = ChainSwapTransactionStatus;
+
+  const allowed: [ChainSwapTransactionStatus, ChainSwapTransactionStatus][] = [
+    [CREATED, LOCKUP_PENDING],
+    [LOCKUP_PENDING, LOCKUP_CONFIRMED],
+    [LOCKUP_CONFIRMED, CLAIM_PENDING],
+    // A new quote confirms a lockup with the wrong amount again
+    [LOCKUP_CONFIRMED, LOCKUP_CONFIRMED],
+    [LOCKUP_CONFIRMED, CLAIM_FAILED],
+    [CLAIM_PENDING, CLAIM_CONFIRMED],
+    [CLAIM_PENDING, CLAIM_FAILED],
+    // Failed claims are retried after a restart
+    [CLAIM_FAILED, CLAIM_PENDING],
+    [CLAIM_FAILED, REFUNDED],
+    [LOCKUP_PENDING, LOCKUP_FAILED],
+    [LOCKUP_FAILED, REFUNDED],
+  ];
+  const rejected: [ChainSwapTransactionStatus, ChainSwapTransactionStatus][] = [
+    [CREATED, CLAIM_CONFIRMED],
+    [CREATED, CLAIM_FAILED],
+    [LOCKUP_PENDING, CLAIM_FAILED],
+    [LOCKUP_PENDING, CLAIM_CONFIRMED],
+    [CLAIM_PENDING, LOCKUP_PENDING],
+    [CLAIM_FAILED, CLAIM_FAILED],
+    [LOCKUP_FAILED, CLAIM_PENDING],
+    [LOCKUP_FAILED, CLAIM_FAILED],
+    [CLAIM_CONFIRMED, REFUNDED],
+    [CLAIM_CONFIRMED, CLAIM_FAILED],
+    [REFUNDED, LOCKUP_FAILED],
+    [REFUNDED, CLAIM_PENDING],
+  ];
+
+  const name = ([from, to]: [
+    ChainSwapTransactionStatus,
+    ChainSwapTransactionStatus
+  ]) => `${ChainSwapTransactionStatus[from]} -> ${ChainSwapTransactionStatus[to]}`;
+  allowed.forEach((transition) => {
+    assert.ok(canTransitionChainSwap(...transition), name(transition));
+    assert.doesNotThrow(() => assertChainSwapTransition("swap", ...transition));
+  });
+  rejected.forEach((transition) => {
+    assert.ok(!canTransitionChainSwap(...transition), name(transition));
+    assert.throws(
+      () => assertChainSwapTransition("swap", ...transition),
+      IllegalChainSwapTransitionError
+    );
+  });
+
+  assert.strictEqual(
+    getTargetChainSwapStatus("transaction.server.confirmed"),
+    CLAIM_PENDING
+  );
+  // Boltz claiming our lockup doesn't confirm our own claim
+  assert.strictEqual(
+    getTargetChainSwapStatus("transaction.claimed"),
+    CLAIM_PENDING
+  );
+  assert.strictEqual(getTargetChainSwapStatus("swap.expired"), LOCKUP_FAILED);
+  assert.strictEqual(getTargetChainSwapStatus("invoice.set"), undefined);
+
+  console.log("✅ Only allowed transitions pass the state machine");
+}
+
+// Checks where swap keys are derived from and that no key index is handed out twice,
+// neither after a restart nor when the swap it was reserved for never got stored
+async function testSwapKeys() {
+  console.log("=== Testing swap key derivation and key index reservation ===");
+
+  const mnemonic =
+    "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about";
+  const rootNode = BIP32Factory(ecc).fromSeed(
+    bip39.mnemonicToSeedSync(mnemonic),
+    bitcoin.networks.regtest
+  );
+  const keyProvider = SwapKeyProvider.fromMnemonic(
+    mnemonic,
+    bitcoin.networks.regtest
+  );
+  const derivedPublicKey = (type: SwapKeyType, index: number) =>
+    rootNode.derivePath(`m/7259'/0'/0'/${type}/${index}`).publicKey;
+
+  for (const type of [SwapKeyType.REFUND, SwapKeyType.CLAIM]) {
+    for (const index of [0, 1, 7]) {
+      assert.ok(
+        keyProvider
+          .getKeyPair(type, index)
+          .publicKey.equals(derivedPublicKey(type, index))
+      );
+    }
+  }
+  // Nothing is derived on the BIP44 account of wallets on the same seed
+  assert.ok(
+    !keyProvider
+      .getKeyPair(SwapKeyType.CLAIM, 0)
+      .publicKey.equals(
+        rootNode.derivePath("m/44'/0'/0'/1/0").publicKey
+      )
+  );
+
+  const dataSource = createDataSource(":memory:");
+  await dataSource.initialize();
+  // The migrations create exactly the schema of the entities
+  const { upQueries } = await dataSource.driver.createSchemaBuilder().log();
+  assert.deepStrictEqual(
+    upQueries.map((query) => query.query),
+    []
+  );
+
+  const simulator = new BoltzSimulator({
+    scenario: simulatorScenarios.expired,
+  });
+  const { apiUrl, webSocketUrl } = await simulator.start();
+  const createService = () =>
+    new ChainToChainSwapService(apiUrl, webSocketUrl, NETWORK, {
+      dataSource,
+      mnemonic,
+      logLevel: "error",
+    });
+  const startSwap = (service: ChainToChainSwapService) =>
+    service.startBoltzChainSwapWithListeners(
+      USER_BTC_ADDRESS,
+      AMOUNT,
+      USER_LIQUID_ADDRESS,
+      ChainSwapDirection.LIQUID_TO_BITCOIN
+    );
+  const repository = new ChainSwapRepository(dataSource);
+  let service = createService();
+
+  try {
+    await service.initialize();
+    const { swapEntity } = await startSwap(service);
+    assert.strictEqual(swapEntity.keyIndex, 0);
+
+    // Boltz got the keys of the swap's index on our purpose
+    const xOnly = (publicKey: Buffer) => publicKey.subarray(1, 33);
+    const claimTree = SwapTreeSerializer.deserializeSwapTree(
+      swapEntity.claimSwapTree
+    );
+    const lockupTree = SwapTreeSerializer.deserializeSwapTree(
+      swapEntity.lockupSwapTree
+    );
+    assert.ok(
+      claimTree.claimLeaf.output.includes(
+        xOnly(derivedPublicKey(SwapKeyType.CLAIM, 0))
+      )
+    );
+    assert.ok(
+      lockupTree.refundLeaf.output.includes(
+        xOnly(derivedPublicKey(SwapKeyType.REFUND, 0))
+      )
+    );
+
+    // An index reserved for a swap that was never stored is skipped after a restart too
+    await repository.reserveKeyIndex(1);
+    await repository.reserveKeyIndex(1);
+    assert.strictEqual(await repository.getNextKeyIndex(), 2);
+
+    assert.ok(
+      await waitFor(
+        () => swapEntity.status === ChainSwapTransactionStatus.LOCKUP_FAILED,
+        10_000
+      )
+    );
+    service.disconnect();
+    service = createService();
+    await service.initialize();
+    const { swapEntity: nextSwap } = await startSwap(service);
+    assert.strictEqual(nextSwap.keyIndex, 2);
+    assert.strictEqual(await repository.getNextKeyIndex(), 3);
+
+    console.log("✅ Swap keys are derived on their own purpose and never reused");
+  } catch (error) {
+    console.error("❌ Error testing swap keys:", error);
+    process.exitCode = 1;
+  } finally {
+    service.disconnect();
+    await simulator.stop();
+  }
+}
+
 // Main execution
 async function main() {
   const testMode = process.env.TEST_MODE || "websocket";
@@ -152,15 +1753,81 @@ async function main() {
     case "connection":
       await testWebSocketListenersWithMockData();
       break;
+    case "quote":
+      testQuotes();
+      break;
+    case "simulator":
+      await testSimulatorScenarios();
+      break;
+    case "replay":
+      await testReplaySession();
+      break;
+    case "detectswap":
+      await testDetectSwap();
+      break;
+    case "logging":
+      testLogRedaction();
+      break;
+    case "metrics":
+      await testMetrics();
+      break;
+    case "webhooks":
+      await testWebhooks();
+      break;
+    case "controller":
+      await testController();
+      await testChainSwapModuleOverHttp();
+      break;
+    case "config":
+      testConfig();
+      break;
+    case "keys":
+      await testSwapKeys();
+      break;
+    case "statemachine":
+      testStateMachine();
+      break;
     default:
       console.log("Available test modes:");
       console.log("- websocket: Full WebSocket listener test (default)");
-      console.log("- detectswap: Test only detectSwap functionality");
+      console.log(
+        "- detectswap: Diagnose the lockup at DETECT_SWAP_INPUT, or check the diagnostics against fabricated lockups"
+      );
+      console.log(
+        "- config: Check loading and validation of the configuration"
+      );
       console.log("- connection: Test only WebSocket connection");
+      console.log(
+        "- keys: Check swap key derivation and key index reservation"
+      );
+      console.log(
+        "- controller: Call the REST controller for a swap against the Boltz simulator"
+      );
+      console.log("- logging: Check that secrets are redacted from log lines");
+      console.log(
+        "- metrics: Check the metrics endpoint after a swap against the Boltz simulator"
+      );
+      console.log("- quote: Check the quoting math against fixture pair data");
+      console.log(
+        "- statemachine: Check the allowed and rejected status transitions of chain swaps"
+      );
+      console.log(
+        "- simulator: Run scripted swap scenarios against the offline Boltz simulator"
+      );
+      console.log(
+        "- replay: Play the recording at REPLAY_SESSION back into the service, or check replays of simulator sessions"
+      );
+      console.log(
+        "- webhooks: Check signed webhook delivery and retries against the Boltz simulator"
+      );
       console.log("");
       console.log("Usage: TEST_MODE=websocket npm run test:websocket");
       break;
   }
 }
 
-main().catch(console.error);
+// Failed assertions have to fail the run, not only be printed
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,199 @@
+import { createHmac } from "crypto";
+import axios from "axios";
+import { DataSource } from "typeorm";
+import { WebhookOutboxRepository } from "./webhook-outbox.repository";
+import { WebhookOutboxEntry } from "./entities/webhook-outbox-entry.entity";
+import { JsonLogger, Logger } from "./logger";
+
+export interface WebhookOptions {
+  url: string;
+  // Key of the HMAC-SHA256 signature in the X-Webhook-Signature header
+  secret: string;
+  // Retry delays double with every failed attempt, up to the maximum
+  initialRetryDelayMs?: number;
+  maxRetryDelayMs?: number;
+  // Events are abandoned after this many failed attempts
+  maxAttempts?: number;
+  pollIntervalMs?: number;
+  timeoutMs?: number;
+}
+
+const defaultOptions: Omit<Required<WebhookOptions>, "url" | "secret"> = {
+  initialRetryDelayMs: 1_000,
+  maxRetryDelayMs: 15 * 60_000,
+  maxAttempts: 20,
+  pollIntervalMs: 5_000,
+  timeoutMs: 10_000,
+};
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Webhook-Signature";
+export const WEBHOOK_TIMESTAMP_HEADER = "X-Webhook-Timestamp";
+export const WEBHOOK_ID_HEADER = "X-Webhook-Id";
+
+/**
+ * Signature of a webhook body. The timestamp is signed along, so receivers can refuse old
+ * deliveries replayed by someone who captured them
+ */
+export const signWebhookPayload = (
+  secret: string,
+  timestamp: number,
+  body: string,
+) =>
+  "sha256=" +
+  createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+
+/**
+ * Delivers the events in the webhook outbox, oldest first, until the webhook answers with a 2xx.
+ * Entries survive restarts in the database, so an event is delivered at least once; receivers
+ * drop duplicates by the event id in X-Webhook-Id. The events of a swap are delivered in order,
+ * one failing holds back the later ones until it was delivered or abandoned
+ */
+export class WebhookDispatcher {
+  private outbox: WebhookOutboxRepository;
+  private options: Required<WebhookOptions>;
+  private pollTimer?: NodeJS.Timeout;
+  private isDelivering = false;
+  // Set when new entries arrive during a delivery round, which then runs once more
+  private deliverAgain = false;
+
+  constructor(
+    dataSource: DataSource,
+    options: WebhookOptions,
+    private logger: Logger = new JsonLogger(),
+  ) {
+    this.outbox = new WebhookOutboxRepository(dataSource);
+    this.options = { ...defaultOptions, ...options };
+  }
+
+  /**
+   * Delivers what was left in the outbox before the last shutdown and starts polling for retries
+   */
+  start() {
+    if (this.pollTimer) {
+      return;
+    }
+    this.pollTimer = setInterval(
+      () => this.deliverDue(),
+      this.options.pollIntervalMs,
+    );
+    this.notify();
+  }
+
+  stop() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  /**
+   * New entries were committed to the outbox, deliver them without waiting for the next poll
+   */
+  notify() {
+    if (this.pollTimer) {
+      void this.deliverDue();
+    }
+  }
+
+  private async deliverDue() {
+    if (this.isDelivering) {
+      this.deliverAgain = true;
+      return;
+    }
+    this.isDelivering = true;
+
+    try {
+      let delivered: boolean;
+      do {
+        this.deliverAgain = false;
+        delivered = false;
+        // The oldest pending entry of every swap, the next ones become due once it was delivered
+        const entries = await this.outbox.findDue(Date.now(), 50);
+
+        for (const entry of entries) {
+          // Stopped while delivering
+          if (!this.pollTimer) {
+            return;
+          }
+          delivered = (await this.deliver(entry)) || delivered;
+        }
+      } while (this.deliverAgain || delivered);
+    } catch (error) {
+      this.logger.error("Failed to read the webhook outbox", { error });
+    } finally {
+      this.isDelivering = false;
+    }
+  }
+
+  /**
+   * Whether the webhook received the entry, or it was abandoned and no longer holds back the
+   * entries of its swap after it
+   */
+  private async deliver(entry: WebhookOutboxEntry): Promise<boolean> {
+    const attempts = entry.attempts + 1;
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    try {
+      await axios.post(this.options.url, entry.payload, {
+        timeout: this.options.timeoutMs,
+        headers: {
+          "Content-Type": "application/json",
+          [WEBHOOK_ID_HEADER]: entry.eventId,
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+            this.options.secret,
+            timestamp,
+            entry.payload,
+          ),
+        },
+        // Redirects could send the signed payload somewhere else
+        maxRedirects: 0,
+      });
+    } catch (error) {
+      const message = error.response
+        ? `HTTP ${error.response.status}`
+        : error.message;
+
+      if (attempts >= this.options.maxAttempts) {
+        this.logger.error("Abandoning webhook delivery", {
+          eventId: entry.eventId,
+          eventType: entry.eventType,
+          swapId: entry.swapId,
+          attempts,
+          lastError: message,
+        });
+        await this.outbox.markFailed(entry.id, attempts, message);
+        return true;
+      }
+
+      const delay = Math.min(
+        this.options.initialRetryDelayMs * 2 ** (attempts - 1),
+        this.options.maxRetryDelayMs,
+      );
+      this.logger.warn("Webhook delivery failed - retrying", {
+        eventId: entry.eventId,
+        eventType: entry.eventType,
+        swapId: entry.swapId,
+        attempts,
+        retryDelayMs: delay,
+        lastError: message,
+      });
+      await this.outbox.markFailed(
+        entry.id,
+        attempts,
+        message,
+        Date.now() + delay,
+      );
+      return false;
+    }
+
+    await this.outbox.markDelivered(entry.id, attempts);
+    this.logger.info("Delivered webhook", {
+      eventId: entry.eventId,
+      eventType: entry.eventType,
+      swapId: entry.swapId,
+      attempts,
+    });
+    return true;
+  }
+}
@@ -0,0 +1,62 @@
+import { DataSource, DeepPartial } from "typeorm";
+import { ChainSwapEvent } from "./chain-swap-events";
+import { WebhookOutboxEntry } from "./entities/webhook-outbox-entry.entity";
+
+export const toWebhookOutboxEntry = (
+  event: ChainSwapEvent,
+): DeepPartial<WebhookOutboxEntry> => ({
+  eventId: event.id,
+  eventType: event.type,
+  swapId: event.swapId,
+  payload: JSON.stringify(event),
+  attempts: 0,
+  nextAttemptAt: Date.now(),
+});
+
+export class WebhookOutboxRepository {
+  constructor(private dataSource: DataSource) {}
+
+  /**
+   * Entries that are neither delivered nor abandoned and due by `now`, oldest first. Only the
+   * oldest pending entry of a swap is returned, so its events are delivered in order and a
+   * failing one holds back the ones after it until it was delivered or abandoned
+   */
+  async findDue(now: number, limit: number): Promise<WebhookOutboxEntry[]> {
+    return this.dataSource
+      .getRepository(WebhookOutboxEntry)
+      .createQueryBuilder("entry")
+      .where('entry."deliveredAt" IS NULL')
+      .andWhere('entry."abandonedAt" IS NULL')
+      .andWhere('entry."nextAttemptAt" <= :now', { now })
+      .andWhere(
+        `NOT EXISTS (SELECT 1 FROM "webhook_outbox" "earlier" WHERE "earlier"."swapId" = entry."swapId" AND "earlier"."id" < entry."id" AND "earlier"."deliveredAt" IS NULL AND "earlier"."abandonedAt" IS NULL)`,
+      )
+      .orderBy("entry.id", "ASC")
+      .limit(limit)
+      .getMany();
+  }
+
+  async markDelivered(id: number, attempts: number): Promise<void> {
+    await this.dataSource
+      .getRepository(WebhookOutboxEntry)
+      .update(id, { attempts, deliveredAt: new Date(), lastError: null });
+  }
+
+  /**
+   * Schedules the next attempt, or abandons the entry when there is none
+   */
+  async markFailed(
+    id: number,
+    attempts: number,
+    error: string,
+    nextAttemptAt?: number,
+  ): Promise<void> {
+    await this.dataSource.getRepository(WebhookOutboxEntry).update(id, {
+      attempts,
+      lastError: error,
+      ...(nextAttemptAt === undefined
+        ? { abandonedAt: new Date() }
+        : { nextAttemptAt }),
+    });
+  }
+}